@@ -0,0 +1,29 @@
+// runs the map checks (src/simulation/mapChecks.ts), the save checks (src/simulation/saveChecks.ts) and the headless
+// simulation scenarios (src/simulation/scenarios.ts) under Node, used by "npm test"
+// vite loads the typescript sources directly, nothing is built
+
+import { readdir, readFile } from "node:fs/promises";
+import { createServer } from "vite";
+
+const server = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+});
+
+try {
+    // the browser globals have to exist before the game creates the Kaboom context
+    const { installHeadlessBrowser } = await server.ssrLoadModule("/src/simulation/browser.ts");
+    installHeadlessBrowser((path) => readFile(new URL(`../public/${path}`, import.meta.url)));
+
+    // every json file in public/ is a map exported from Tiled
+    const mapFiles = (await readdir(new URL("../public/", import.meta.url))).filter((file) => file.endsWith(".json"));
+
+    const { runChecks } = await server.ssrLoadModule("/src/simulation/checks.ts");
+    const { createMapChecks } = await server.ssrLoadModule("/src/simulation/mapChecks.ts");
+    const { saveChecks } = await server.ssrLoadModule("/src/simulation/saveChecks.ts");
+    const { scenarios } = await server.ssrLoadModule("/src/simulation/scenarios.ts");
+    process.exitCode = (await runChecks([...createMapChecks(mapFiles), ...saveChecks, ...scenarios])) > 0 ? 1 : 0;
+} finally {
+    await server.close();
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+// copy abilities the player can get by swallowing enemies, see the "ability" field in the enemy registry
+
+import { KaboomCtx } from "kaboom";
+import type { PlayerGameObj } from "./entities";
+
+export type AbilityName = "fire" | "dash" | "glide";
+
+// describes what happens when the player uses an ability with the inhale key
+type Ability = {
+    color: string; // hex value used to tint the player sprite while the ability is held
+    onStart: (k: KaboomCtx, player: PlayerGameObj) => void; // inhale key is pressed
+    onHold?: (k: KaboomCtx, player: PlayerGameObj) => void; // runs every frame while the inhale key is held down
+    onStop?: (k: KaboomCtx, player: PlayerGameObj) => void; // inhale key is released or the ability is dropped
+};
+
+export const abilities: Record<AbilityName, Ability> = {
+    // breathes fire in front of the player for as long as the key is held, burns enemies it touches
+    fire: {
+        color: "#ffb38a",
+        onStart: (k, player) => {
+            if (player.get("fireBreath").length > 0) return; // already breathing fire
+            player.add([
+                k.sprite("assets", { anim: "kirbInhaleEffect" }), // same animation as the inhale effect, tinted like fire
+                k.color(k.Color.fromHex("#ff6a2b")),
+                k.area({ shape: new k.Rect(k.vec2(0, 4), 16, 8) }), // hitbox that burns enemies, see makeInhalable()
+                k.pos(),
+                "fireBreath", // tag
+            ]);
+        },
+        onHold: (k, player) => {
+            // the fire breath is a child of the player, so its position is relative to the player
+            for (const fireBreath of player.get("fireBreath")) {
+                fireBreath.pos = k.vec2(player.direction === "left" ? -15 : 15, 0);
+                fireBreath.flipX = player.direction === "left";
+            }
+        },
+        onStop: (_k, player) => {
+            for (const fireBreath of player.get("fireBreath")) {
+                fireBreath.destroy();
+            }
+        },
+    },
+    // short burst of speed in the facing direction, enemies hit during the dash are defeated (see makePlayer())
+    dash: {
+        color: "#ffe08a",
+        onStart: (k, player) => {
+            if (player.isDashing) return; // one dash at a time
+            player.isDashing = true;
+            const direction = player.direction === "left" ? -1 : 1; // locked in when the dash starts
+            const dash = player.onUpdate(() => player.move(direction * player.speed * 3, 0));
+            k.wait(0.3, () => { // dash duration in seconds
+                dash.cancel();
+                player.isDashing = false;
+            });
+        },
+    },
+    // slows down the fall while in the air, limited to a short time before the player has to land again
+    glide: {
+        color: "#a8d8ff",
+        onStart: () => {}, // gliding only happens while the key is held
+        onHold: (k, player) => {
+            if (player.isGrounded() || player.glideTime >= 1.5) return; // max glide time in seconds
+            player.glideTime += k.dt();
+            player.vel.y = Math.min(player.vel.y, 120); // cap falling speed
+        },
+    },
+};
\ No newline at end of file
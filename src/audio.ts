@@ -0,0 +1,139 @@
+// audio manager: background music with crossfades, named sound events and the volume channels from the settings
+// gameplay code raises sound events with playSound() instead of calling k.play() directly
+
+import { AudioPlay, KaboomCtx } from "kaboom";
+import { save, Settings } from "./state";
+
+// every sound the gameplay code can trigger
+export type SoundEvent =
+    | "jump"
+    | "inhaleStart"
+    | "inhaleStop"
+    | "swallow"
+    | "spit"
+    | "starHit"
+    | "hurt"
+    | "death"
+    | "pickup"
+    | "exit";
+
+// sound file (name in /public/sounds without the extension) and playback options of a sound event
+type SoundDefinition = {
+    sound: string;
+    volume: number; // relative to the sfx channel
+    detuneRange?: number; // random detune in cents (+/-), avoids repetitive sounds for frequent events
+};
+
+// add new sound events here, several events can share the same file
+export const soundRegistry: Record<SoundEvent, SoundDefinition> = {
+    jump: { sound: "jump", volume: 0.6, detuneRange: 100 },
+    inhaleStart: { sound: "inhale", volume: 0.7 },
+    inhaleStop: { sound: "inhaleStop", volume: 0.5 },
+    swallow: { sound: "swallow", volume: 0.8 },
+    spit: { sound: "spit", volume: 0.8 },
+    starHit: { sound: "starHit", volume: 0.8, detuneRange: 200 },
+    hurt: { sound: "hurt", volume: 0.9 },
+    death: { sound: "death", volume: 1 },
+    pickup: { sound: "pickup", volume: 0.7, detuneRange: 100 },
+    exit: { sound: "exit", volume: 1 },
+};
+
+// background music tracks, played on a loop (see playMusic())
+export const musicTracks = ["music-title", "music-level-1"];
+
+const crossfadeTime = 1; // seconds for the old track to fade out and the new one to fade in
+
+type AudioState = {
+    music: { track: string; play: AudioPlay } | null; // track that is currently playing (or fading in)
+    isFocused: boolean; // the game is muted while the browser window is not focused
+};
+
+const audioState: AudioState = {
+    music: null,
+    isFocused: true,
+};
+
+// loads every sound file and sets up the master volume, call once in gameSetup()
+export function loadAudio(k: KaboomCtx) {
+    const sounds = new Set([...Object.values(soundRegistry).map((definition) => definition.sound), ...musicTracks]);
+    for (const sound of sounds) {
+        k.loadSound(sound, `./sounds/${sound}.wav`);
+    }
+
+    // mute while the player is in another window or tab, Kaboom only suspends the audio when the tab is hidden
+    window.addEventListener("blur", () => {
+        audioState.isFocused = false;
+        applyMasterVolume(k);
+    });
+    window.addEventListener("focus", () => {
+        audioState.isFocused = true;
+        applyMasterVolume(k);
+    });
+    applyMasterVolume(k);
+}
+
+function applyMasterVolume(k: KaboomCtx) {
+    k.volume(audioState.isFocused ? save.data.settings.masterVolume : 0);
+}
+
+function getMusicVolume() {
+    return save.data.settings.musicVolume;
+}
+
+// plays a sound event with the volume of the sfx channel
+export function playSound(k: KaboomCtx, event: SoundEvent) {
+    const definition = soundRegistry[event];
+    const detune = definition.detuneRange ? k.rand(-definition.detuneRange, definition.detuneRange) : 0;
+    k.play(definition.sound, { volume: definition.volume * save.data.settings.sfxVolume, detune });
+}
+
+// runs a fade over the crossfade time, progress goes from 0 to 1
+// tweens belong to the current scene and are cancelled when it changes, the fade is then finished right away
+function fade(k: KaboomCtx, update: (progress: number) => void, finish: () => void) {
+    const leave = k.onSceneLeave(finish);
+    k.tween(0, 1, crossfadeTime, update, k.easings.linear).onEnd(() => {
+        leave.cancel();
+        finish();
+    });
+}
+
+// starts a music track, crossfades from the current one, does nothing if the track is already playing
+export function playMusic(k: KaboomCtx, track: string) {
+    if (audioState.music?.track === track) return;
+
+    if (audioState.music) fadeOut(k, audioState.music.play);
+
+    const play = k.play(track, { loop: true, volume: 0 });
+    audioState.music = { track, play };
+    const isCurrent = () => audioState.music?.play === play; // a track that is already fading out again is left alone
+    fade(
+        k,
+        (progress) => {
+            if (isCurrent()) play.volume = progress * getMusicVolume();
+        },
+        () => {
+            if (isCurrent()) play.volume = getMusicVolume();
+        }
+    );
+}
+
+// fades out the current music track
+export function stopMusic(k: KaboomCtx) {
+    if (!audioState.music) return;
+    fadeOut(k, audioState.music.play);
+    audioState.music = null;
+}
+
+function fadeOut(k: KaboomCtx, play: AudioPlay) {
+    const startVolume = play.volume;
+    fade(k, (progress) => (play.volume = startVolume * (1 - progress)), () => play.stop());
+}
+
+// changes one of the volume channels and saves it, the music follows right away
+// rounded to whole percent so that repeated steps of 0.1 do not drift
+export function setVolume(k: KaboomCtx, channel: "masterVolume" | "musicVolume" | "sfxVolume", value: number) {
+    const volume: Partial<Settings> = { [channel]: Math.round(Math.min(1, Math.max(0, value)) * 100) / 100 };
+    save.updateSettings(volume);
+    applyMasterVolume(k);
+    if (audioState.music) audioState.music.play.volume = getMusicVolume();
+}
\ No newline at end of file
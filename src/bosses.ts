@@ -0,0 +1,350 @@
+// boss encounters: boss registry, phase state machines, attack patterns and the arena that locks the camera
+// a boss is placed as a spawn point in Tiled (name = key in the boss registry), the arena is a collider named "arena"
+
+import { Collision, GameObj, KaboomCtx } from "kaboom";
+import { playSound } from "./audio";
+import { lockCamera, shakeCamera, unlockCamera } from "./camera";
+import { scale } from "./constants";
+import { enemyRegistry, makeEnemy, makeInhalable } from "./enemies";
+import { getClosestPlayer } from "./enemyBehaviors";
+import { addScore } from "./state";
+import { SpawnPoint } from "./utils";
+
+// an attack pattern, resolves when the attack is over and the boss can go back to idling
+type BossAttack = (k: KaboomCtx, boss: GameObj) => Promise<void>;
+
+// a phase starts once the boss health drops to or below its threshold
+type BossPhase = {
+    hpThreshold: number; // fraction of max health, the first phase should use 1
+    attacks: BossAttack[]; // performed in order, starts over after the last one
+    idleTime: number; // seconds between attacks
+};
+
+// describes a boss type, the key in the registry is the spawn point name used in Tiled
+type BossDefinition = {
+    name: string; // shown above the health bar
+    anim: string; // animation from the "assets" sprite
+    size: number; // sprite scale relative to regular enemies
+    color: string; // hex value used to tint the sprite
+    hitbox: { x: number; y: number; width: number; height: number }; // relative to the sprite, before scaling
+    maxHP: number;
+    points: number; // added to the score when the boss is defeated
+    damage: number; // health the player loses when touching the boss
+    invulnerableTime: number; // seconds the boss can not be hurt after taking a hit
+    phases: BossPhase[];
+};
+
+// damage dealt to a boss by the different player attacks
+const bossDamage = {
+    shootingStar: 2,
+    fireBreath: 1,
+    dash: 1,
+};
+
+// shoots projectiles at the target, they can be inhaled and spit back like an enemy
+function shootProjectiles(count: number, speed: number): BossAttack {
+    return async (k, boss) => {
+        for (let i = 0; i < count; i++) {
+            const target = getClosestPlayer(k, boss);
+            if (!target || !boss.exists()) return;
+
+            const direction = target.pos.sub(boss.pos).unit();
+            const projectile = k.add([
+                k.sprite("assets", { anim: "shootingStar" }),
+                k.color(k.Color.fromHex("#7a4cff")),
+                k.scale(scale),
+                k.pos(boss.pos.add(direction.scale(40))),
+                k.area({
+                    shape: new k.Rect(k.vec2(5, 4), 6, 6),
+                    collisionIgnore: ["enemy"],
+                }),
+                k.move(direction, speed),
+                k.offscreen({ destroy: true, distance: 400 }),
+                k.lifespan(4), // removed after 4 seconds if it did not hit anything
+                { isInhalable: false, enemyType: "bossProjectile", damage: 1 }, // not in the enemy registry --> gives no ability
+                "enemy", // hurts the player on contact
+                "projectile", // destroyed when it hits the player (see damagePlayer())
+            ]);
+            makeInhalable(k, projectile);
+            projectile.onCollide("platform", () => k.destroy(projectile));
+
+            await k.wait(0.4); // time between shots
+        }
+    };
+}
+
+// runs at the target until hitting a wall or after a maximum time
+function charge(speed: number, maxTime: number): BossAttack {
+    return async (k, boss) => {
+        const target = getClosestPlayer(k, boss);
+        if (!target) return;
+
+        const direction = target.pos.x < boss.pos.x ? -1 : 1;
+        boss.flipX = direction > 0;
+        await k.wait(0.5); // wind-up, gives the player time to react
+        if (!boss.exists()) return;
+
+        let hitWall = false;
+        const hit = boss.onCollide("platform", (_: GameObj, col?: Collision) => {
+            if (col?.isLeft() || col?.isRight()) {
+                hitWall = true;
+                shakeCamera(16);
+            }
+        });
+
+        // resolves once the charge is over, or right away when the boss is destroyed mid-charge
+        await new Promise<void>((resolve) => {
+            let elapsed = 0;
+            const stop = () => {
+                move.cancel();
+                hit.cancel();
+                destroyed.cancel();
+                resolve();
+            };
+            const move = boss.onUpdate(() => {
+                elapsed += k.dt();
+                boss.move(direction * speed, 0);
+                if (hitWall || elapsed >= maxTime) stop();
+            });
+            const destroyed = boss.onDestroy(stop);
+        });
+    };
+}
+
+// spawns minions next to the boss with the regular enemy factory
+function summon(type: string, count: number): BossAttack {
+    return async (k, boss) => {
+        const definition = enemyRegistry[type];
+        if (!definition) return;
+
+        for (let i = 0; i < count; i++) {
+            const offset = (i - (count - 1) / 2) * 24; // spread out next to each other, in map pixels
+            const spawnPoint: SpawnPoint = {
+                x: boss.pos.x / scale + offset,
+                y: boss.pos.y / scale - 16, // slightly above the boss so minions drop down
+                properties: {},
+            };
+            makeEnemy(k, type, spawnPoint, { ...definition.defaults, respawnInterval: 0 });
+        }
+        await k.wait(0.5);
+    };
+}
+
+// add new bosses here and place spawn points with the same name in Tiled
+export const bossRegistry: Record<string, BossDefinition> = {
+    bigGuy: {
+        name: "BIG GUY",
+        anim: "guyWalk",
+        size: 2.5,
+        color: "#ff9ab0",
+        hitbox: { x: 2, y: 3.9, width: 12, height: 12 },
+        maxHP: 12,
+        points: 5000,
+        damage: 2,
+        invulnerableTime: 1,
+        phases: [
+            {
+                hpThreshold: 1,
+                attacks: [shootProjectiles(3, 350), charge(500, 2)],
+                idleTime: 1.5,
+            },
+            {
+                hpThreshold: 0.5,
+                attacks: [charge(700, 2), summon("guy", 2), shootProjectiles(5, 450), summon("flame", 1)],
+                idleTime: 1,
+            },
+        ],
+    },
+};
+
+// health bar fixed to the bottom of the screen, removed together with the boss
+function makeBossHealthBar(k: KaboomCtx, boss: GameObj, definition: BossDefinition) {
+    const width = k.width() * 0.6;
+    const bar = k.add([
+        k.pos(k.center().x - width / 2, k.height() - 56),
+        k.fixed(),
+        k.z(100),
+    ]);
+    bar.add([k.text(definition.name, { size: 24 }), k.color(k.Color.fromHex("#5c2a3a")), k.pos(0, -30)]);
+    bar.add([k.rect(width, 20), k.color(k.Color.fromHex("#5c2a3a"))]);
+    const fill = bar.add([k.rect(width - 8, 12), k.color(k.Color.fromHex("#d6336c")), k.pos(4, 4)]);
+
+    bar.onUpdate(() => {
+        if (!boss.exists()) {
+            k.destroy(bar);
+            return;
+        }
+        bar.hidden = boss.state === "dormant"; // only shown once the fight starts
+        fill.width = (width - 8) * Math.max(0, boss.hp() / definition.maxHP);
+    });
+}
+
+// creates a boss that waits in its "dormant" state until the player enters the arena
+export function makeBoss(k: KaboomCtx, type: string, spawnPoint: SpawnPoint) {
+    const definition = bossRegistry[type];
+    const { hitbox } = definition;
+
+    const boss = k.add([
+        k.sprite("assets", { anim: definition.anim }),
+        k.color(k.Color.fromHex(definition.color)),
+        k.scale(scale * definition.size),
+        k.pos(spawnPoint.x * scale, spawnPoint.y * scale),
+        k.area({
+            shape: new k.Rect(k.vec2(hitbox.x, hitbox.y), hitbox.width, hitbox.height),
+            collisionIgnore: ["enemy"],
+        }),
+        k.body(),
+        k.health(definition.maxHP),
+        k.opacity(1),
+        k.state("dormant", ["dormant", "idle", "attack", "transition", "defeated"]),
+        {
+            bossType: type,
+            phase: 0, // index in definition.phases
+            attackIndex: 0, // next attack of the current phase
+            isInvulnerable: false,
+            damage: definition.damage,
+            spawnId: undefined as number | undefined, // Tiled object id of the spawn point, set by spawnBosses()
+        },
+        "boss", // tag
+    ]);
+
+    makeBossHealthBar(k, boss, definition);
+
+    // waits between attacks, checks for a phase change first
+    boss.onStateEnter("idle", async () => {
+        const health = boss.hp() / definition.maxHP;
+        const nextPhase = definition.phases.reduce((current, phase, index) => (health <= phase.hpThreshold ? index : current), 0);
+        if (nextPhase > boss.phase) {
+            boss.phase = nextPhase;
+            boss.attackIndex = 0;
+            boss.enterState("transition");
+            return;
+        }
+        await k.wait(definition.phases[boss.phase].idleTime);
+        if (boss.state === "idle") boss.enterState("attack");
+    });
+
+    boss.onStateEnter("attack", async () => {
+        const { attacks } = definition.phases[boss.phase];
+        const attack = attacks[boss.attackIndex % attacks.length];
+        boss.attackIndex++;
+        await attack(k, boss);
+        if (boss.exists() && boss.state === "attack") boss.enterState("idle"); // a defeated boss stops attacking
+    });
+
+    // invulnerable while flashing into the next phase
+    boss.onStateEnter("transition", async () => {
+        boss.isInvulnerable = true;
+        await blink(k, boss, 2);
+        boss.isInvulnerable = false;
+        if (boss.state === "transition") boss.enterState("idle");
+    });
+
+    boss.onStateEnter("defeated", async () => {
+        boss.isInvulnerable = true;
+        addScore(definition.points);
+        shakeCamera(24);
+        await blink(k, boss, 1.5);
+        k.destroy(boss);
+        // opens the arena again once every boss in it is gone (see setupArenas())
+        boss.trigger("defeated");
+    });
+
+    // takes damage from player attacks, ignored while invulnerable
+    async function takeDamage(amount: number) {
+        if (boss.isInvulnerable || boss.state === "dormant" || boss.state === "defeated") return;
+        boss.hurt(amount);
+        if (boss.hp() <= 0) {
+            boss.enterState("defeated");
+            return;
+        }
+        boss.isInvulnerable = true;
+        await blink(k, boss, definition.invulnerableTime);
+        boss.isInvulnerable = false;
+    }
+
+    boss.onCollide("shootingStar", (shootingStar: GameObj) => {
+        k.destroy(shootingStar);
+        playSound(k, "starHit");
+        takeDamage(bossDamage.shootingStar);
+    });
+    boss.onCollide("fireBreath", () => takeDamage(bossDamage.fireBreath));
+    boss.onCollide("player", (player: GameObj) => {
+        if (player.isDashing || player.isInvincible) takeDamage(bossDamage.dash);
+    });
+
+    return boss;
+}
+
+// flashes the opacity of an object for the given duration
+async function blink(k: KaboomCtx, obj: GameObj, duration: number) {
+    const interval = 0.1;
+    for (let t = 0; t < duration && obj.exists(); t += interval) {
+        obj.opacity = obj.opacity === 1 ? 0.3 : 1;
+        await k.wait(interval);
+    }
+    obj.opacity = 1;
+}
+
+// spawns the bosses for all spawn points of the level that have an entry in the boss registry
+// spawnIds --> only spawn the bosses of these spawn points (Tiled object ids), used when restoring a checkpoint
+export function spawnBosses(k: KaboomCtx, spawnPoints: Record<string, SpawnPoint[]>, spawnIds?: number[]) {
+    for (const [type, points] of Object.entries(spawnPoints)) {
+        if (!bossRegistry[type]) continue; // not a boss
+        for (const spawnPoint of points) {
+            if (spawnIds && (spawnPoint.id === undefined || !spawnIds.includes(spawnPoint.id))) continue;
+            const boss = makeBoss(k, type, spawnPoint);
+            boss.spawnId = spawnPoint.id;
+        }
+    }
+}
+
+// adds the walls that keep the players inside an active arena
+function closeArena(k: KaboomCtx, arena: GameObj) {
+    const { x, y } = arena.worldPos();
+    const width = arena.area.shape.width * scale;
+    const height = arena.area.shape.height * scale;
+    for (const wallX of [x - 16, x + width]) {
+        k.add([
+            k.area({ shape: new k.Rect(k.vec2(0), 16, height) }),
+            k.body({ isStatic: true }),
+            k.pos(wallX, y),
+            "platform", // behaves like terrain (stops projectiles etc.)
+            "arenaWall", // tag, removed when the arena opens again
+        ]);
+    }
+}
+
+// arenas are activated by the first player entering them, they lock the camera and wake up the bosses
+// exits stay closed while any boss is alive (see makePlayer())
+export function setupArenas(k: KaboomCtx) {
+    // the map object is reused between attempts of a level, so the state of the arenas is reset on every scene start
+    resetArenas(k);
+
+    k.onCollide("player", "arena", (_player: GameObj, arena: GameObj) => {
+        if (arena.isActive || k.get("boss").length === 0) return;
+        arena.isActive = true;
+        closeArena(k, arena);
+        // keeps the whole arena in view during the fight (map pixels, the arena is a child of the map)
+        lockCamera({ x: arena.pos.x, y: arena.pos.y, width: arena.area.shape.width, height: arena.area.shape.height });
+        for (const boss of k.get("boss")) {
+            if (boss.state === "dormant") boss.enterState("idle");
+            boss.on("defeated", () => {
+                if (k.get("boss").length > 0) return; // other bosses are still alive
+                arena.isActive = false;
+                k.destroyAll("arenaWall");
+                unlockCamera();
+            });
+        }
+    });
+}
+
+
+// opens all arenas again and releases the camera, a fight starts over when a player enters the arena next time
+export function resetArenas(k: KaboomCtx) {
+    for (const arena of k.get("arena", { recursive: true })) {
+        arena.isActive = false;
+    }
+    k.destroyAll("arenaWall");
+    unlockCamera();
+}
\ No newline at end of file
@@ -0,0 +1,149 @@
+// camera controller, follows the players within the bounds and zones placed in the "camera" layer in Tiled
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { scale } from "./constants";
+
+// rectangle in map pixels (before scaling), as placed in Tiled
+export type CameraRegion = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+// area of the level that changes how the camera behaves while the players are inside, set with custom properties in Tiled
+export type CameraZone = CameraRegion & {
+    zoom: number | null; // replaces the default zoom
+    lookAhead: number | null; // replaces the default look-ahead distance
+    lockX: boolean; // keeps the camera centered on the zone horizontally
+    lockY: boolean; // keeps the camera centered on the zone vertically
+};
+
+// everything the camera reads from the map, see makeMap() in utils.ts
+export type CameraData = {
+    bounds: CameraRegion; // the camera never shows anything outside of this area, defaults to the whole map
+    zones: CameraZone[];
+    locks: CameraRegion[]; // the camera stays centered on these while the players are inside ("lock" objects in Tiled)
+};
+
+// tuning values shared by all levels
+export const cameraSettings = {
+    zoom: 0.7, // default camera scale
+    minZoom: 0.4, // furthest the camera zooms out to keep several players in frame
+    followSpeed: 6, // how quickly the camera catches up with its target, higher --> snappier
+    lookAhead: 200, // distance in pixels the camera leads a single player in their facing direction
+    lookAheadSpeed: 3, // how quickly the look-ahead switches sides when the player turns around
+};
+
+type CameraState = {
+    lockedRegion: CameraRegion | null; // set from outside the camera, e.g. during a boss fight
+    shake: number; // current shake strength in pixels, fades out over time
+};
+
+const cameraState: CameraState = {
+    lockedRegion: null,
+    shake: 0,
+};
+
+// keeps the camera centered on the region until unlockCamera() is called, region is in map pixels
+export function lockCamera(region: CameraRegion) {
+    cameraState.lockedRegion = region;
+}
+
+export function unlockCamera() {
+    cameraState.lockedRegion = null;
+}
+
+// shakes the screen, stronger shakes replace weaker ones that are still fading out
+export function shakeCamera(intensity = 12) {
+    cameraState.shake = Math.max(cameraState.shake, intensity);
+}
+
+function contains(region: CameraRegion, x: number, y: number) {
+    return x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+}
+
+function centerOf(region: CameraRegion) {
+    return { x: region.x + region.width / 2, y: region.y + region.height / 2 };
+}
+
+// keeps the visible area inside the bounds on one axis, centers the bounds when they are smaller than the view
+function clampAxis(k: KaboomCtx, center: number, viewSize: number, min: number, size: number) {
+    if (viewSize >= size) return min + size / 2;
+    return k.clamp(center, min + viewSize / 2, min + size - viewSize / 2);
+}
+
+// adds the camera controller to the current scene, follows every player that still exists
+export function makeCamera(k: KaboomCtx, players: GameObj[], cameraData: CameraData) {
+    // the camera state outlives the scene, start every attempt of a level without locks or shakes
+    cameraState.lockedRegion = null;
+    cameraState.shake = 0;
+
+    const bounds = cameraData.bounds;
+    let lookAheadOffset = 0; // current horizontal look-ahead, moves towards the facing direction over time
+    let isFirstFrame = true; // the camera jumps to its target at the start instead of panning in from the origin
+    // followed position and zoom without the shake, in world pixels
+    let followX = 0;
+    let followY = 0;
+    let followZoom = cameraSettings.zoom;
+
+    k.onUpdate(() => { // event that runs every frame (~60 times per second)
+        const activePlayers = players.filter((player) => player.exists());
+        if (activePlayers.length === 0) return;
+
+        // center between all players, in map pixels
+        const xs = activePlayers.map((player) => player.pos.x / scale);
+        const ys = activePlayers.map((player) => player.pos.y / scale);
+        let targetX = (Math.min(...xs) + Math.max(...xs)) / 2;
+        let targetY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+        const zone = cameraData.zones.find((zone) => contains(zone, targetX, targetY));
+        let zoom = zone?.zoom ?? cameraSettings.zoom;
+
+        // zoom out when players move apart so that all of them stay in frame
+        if (activePlayers.length > 1) {
+            const spreadX = (Math.max(...xs) - Math.min(...xs)) * scale;
+            const spreadY = (Math.max(...ys) - Math.min(...ys)) * scale;
+            const fitZoom = Math.min((k.width() * 0.8) / (spreadX + 1), (k.height() * 0.8) / (spreadY + 1));
+            zoom = Math.max(cameraSettings.minZoom, Math.min(zoom, fitZoom));
+        }
+
+        // a single player is led in their facing direction, several players are kept in the middle
+        const lookAhead = zone?.lookAhead ?? cameraSettings.lookAhead;
+        const lookAheadTarget = activePlayers.length > 1 ? 0 : activePlayers[0].direction === "left" ? -lookAhead : lookAhead;
+        lookAheadOffset = k.lerp(lookAheadOffset, lookAheadTarget, Math.min(1, cameraSettings.lookAheadSpeed * k.dt()));
+        targetX += lookAheadOffset / scale;
+
+        if (zone?.lockX) targetX = centerOf(zone).x;
+        if (zone?.lockY) targetY = centerOf(zone).y;
+
+        // locked regions win over everything else, the boss arena lock wins over the ones from the map
+        const lock = cameraState.lockedRegion ?? cameraData.locks.find((lock) => contains(lock, targetX, targetY));
+        if (lock) {
+            ({ x: targetX, y: targetY } = centerOf(lock));
+        }
+
+        // never show anything outside of the level bounds (view size is converted to map pixels)
+        const viewWidth = k.width() / zoom / scale;
+        const viewHeight = k.height() / zoom / scale;
+        targetX = clampAxis(k, targetX, viewWidth, bounds.x, bounds.width);
+        targetY = clampAxis(k, targetY, viewHeight, bounds.y, bounds.height);
+
+        // smoothly follow the target, framerate independent
+        const t = isFirstFrame ? 1 : 1 - Math.exp(-cameraSettings.followSpeed * k.dt());
+        isFirstFrame = false;
+        followX = k.lerp(followX, targetX * scale, t);
+        followY = k.lerp(followY, targetY * scale, t);
+        followZoom = k.lerp(followZoom, zoom, t);
+
+        // shake is added on top of the followed position and fades out
+        let shake = k.vec2(0);
+        if (cameraState.shake > 0.5 && k.dt() > 0) { // no shaking while the game is paused
+            shake = k.Vec2.fromAngle(k.rand(0, 360)).scale(cameraState.shake); // seeded, so replays shake the same way
+            cameraState.shake = k.lerp(cameraState.shake, 0, Math.min(1, 5 * k.dt()));
+        }
+
+        k.camScale(followZoom, followZoom);
+        k.camPos(followX + shake.x, followY + shake.y);
+    });
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+// checkpoints placed as "checkpoint" objects in the "spawnpoints" layer in Tiled
+// touching one remembers the state of the level, dying afterwards restores that state instead of restarting the scene
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { resetArenas, spawnBosses } from "./bosses";
+import { scale } from "./constants";
+import { revivePlayer } from "./damage";
+import type { PlayerGameObj } from "./entities";
+import { respawnEnemies } from "./enemies";
+import { PickupPoint, spawnPickups } from "./pickups";
+import { SpawnPoint } from "./utils";
+
+// state of the level when a checkpoint was touched
+type Checkpoint = {
+    x: number; // respawn position in map pixels
+    y: number;
+    aliveSpawns: number[]; // spawn point ids of the enemies and bosses that were still around
+};
+
+type CheckpointState = {
+    latest: Checkpoint | null; // null --> no checkpoint reached in the current attempt
+    start: Checkpoint | null; // the level as it was when the scene was built, see restoreLevelStart()
+    restore: ((checkpoint: Checkpoint) => void) | null; // set up by the current level scene
+};
+
+const checkpointState: CheckpointState = {
+    latest: null,
+    start: null,
+    restore: null,
+};
+
+// objects that are removed when restoring, everything the level spawns while it is being played
+const restoredTags = ["enemy", "boss", "projectile", "shootingStar", "abilityStar", "pickup"];
+
+// adds the checkpoints of the level and prepares restoring them, call at the start of the level scene
+export function setupCheckpoints(
+    k: KaboomCtx,
+    levelId: string,
+    players: PlayerGameObj[],
+    spawnPoints: Record<string, SpawnPoint[]>,
+    pickups: PickupPoint[]
+) {
+    checkpointState.latest = null; // the scene starts from the beginning of the level
+
+    // the start of the level works like a checkpoint at the player spawn that was reached before anything happened
+    checkpointState.start = {
+        x: spawnPoints.player[0].x,
+        y: spawnPoints.player[0].y,
+        aliveSpawns: Object.values(spawnPoints)
+            .flat()
+            .map((point) => point.id)
+            .filter((id): id is number => typeof id === "number"),
+    };
+
+    for (const point of spawnPoints.checkpoint ?? []) {
+        const checkpoint = k.add([
+            k.rect(4, 64),
+            k.color(k.Color.fromHex("#5c2a3a")),
+            k.anchor("bot"),
+            // points use the same convention as the player spawn (top left corner of the player), the pole stands on the ground below
+            k.pos((point.x + 8) * scale, (point.y + 16) * scale),
+            k.area({ shape: new k.Rect(k.vec2(-16, -64), 32, 64) }), // wider than the pole so it is easy to touch
+            "checkpoint", // tag
+        ]);
+        const flag = checkpoint.add([
+            k.rect(28, 20),
+            k.color(k.Color.fromHex("#c9b8bb")), // grey until reached
+            k.pos(2, -64),
+        ]);
+
+        checkpoint.onCollide("player", () => {
+            if (checkpointState.latest?.x === point.x && checkpointState.latest?.y === point.y) return;
+            checkpointState.latest = {
+                x: point.x,
+                y: point.y,
+                aliveSpawns: [...k.get("enemy"), ...k.get("boss")]
+                    .map((obj: GameObj) => obj.spawnId)
+                    .filter((id): id is number => typeof id === "number"),
+            };
+            // only the latest checkpoint shows a colored flag
+            for (const other of k.get("checkpoint")) other.children[0].color = k.Color.fromHex("#c9b8bb");
+            flag.color = k.Color.fromHex("#d6336c");
+        });
+    }
+
+    checkpointState.restore = (checkpoint) => {
+        for (const tag of restoredTags) k.destroyAll(tag);
+
+        // enemies and bosses respawn unless they were already gone when the checkpoint was reached
+        respawnEnemies(k, spawnPoints, checkpoint.aliveSpawns);
+        resetArenas(k);
+        spawnBosses(k, spawnPoints, checkpoint.aliveSpawns);
+
+        // pickups stay collected like when the level restarts, the score and lives they gave are kept too
+        spawnPickups(k, levelId, pickups);
+
+        // players are placed next to each other like at the start of the level
+        players.forEach((player, index) => revivePlayer(k, player, checkpoint.x + index * 16, checkpoint.y));
+    };
+}
+
+// restores the level to the latest checkpoint, returns false when no checkpoint was reached yet
+export function restoreCheckpoint() {
+    if (!checkpointState.latest || !checkpointState.restore) return false;
+    checkpointState.restore(checkpointState.latest);
+    return true;
+}
+
+// restores the level to how it was when the scene was built without restarting the scene, used by time attack where
+// a new scene would also start a new attempt
+export function restoreLevelStart() {
+    if (!checkpointState.start || !checkpointState.restore) return false;
+    checkpointState.restore(checkpointState.start);
+    return true;
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+// collider kinds: special terrain placed in the "colliders" layer in Tiled, chosen with the object's type (class)
+// objects without a type stay plain static platforms and are built together with the map (see makeMap() in utils.ts)
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { playSound } from "./audio";
+import { scale } from "./constants";
+
+// collider object from Tiled, positions and sizes are in map pixels (before scaling)
+export type ColliderObject = {
+    type: string; // key in the collider registry
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    path: { x: number; y: number }[]; // points of a polyline/polygon relative to x and y, empty for rectangles
+    isClosedPath: boolean; // polygon --> the path loops, polyline --> the path is travelled back and forth
+    properties: Record<string, string | number | boolean>;
+};
+
+// creates the game objects for a collider, called once per collider at the start of every level attempt
+type ColliderFactory = (k: KaboomCtx, collider: ColliderObject) => void;
+
+// numeric custom property of the collider, or the fallback when it is not set in Tiled
+function getNumber(collider: ColliderObject, name: string, fallback: number) {
+    const value = collider.properties[name];
+    return typeof value === "number" ? value : fallback;
+}
+
+// components shared by every solid collider, the visuals use a plain rectangle since these objects move or disappear
+function solidComps(k: KaboomCtx, x: number, y: number, width: number, height: number, color: string) {
+    return [
+        k.rect(width * scale, height * scale),
+        k.color(k.Color.fromHex(color)),
+        k.outline(4, k.Color.fromHex("#5c2a3a")),
+        k.area(),
+        k.body({ isStatic: true }),
+        k.pos(x * scale, y * scale),
+        "platform", // tag, behaves like regular terrain for everything that checks for platforms
+    ];
+}
+
+// solid only from above: bodies can jump up through it, players can drop down by pressing the swallow action
+function addOneWayPlatform(k: KaboomCtx, collider: ColliderObject) {
+    const platform = k.add([
+        k.area({ shape: new k.Rect(k.vec2(0), collider.width * scale, collider.height * scale) }),
+        k.body({ isStatic: true }),
+        k.pos(collider.x * scale, collider.y * scale),
+        "platform",
+        "oneWay", // tag
+    ]);
+
+    platform.onBeforePhysicsResolve((col) => {
+        const other = col.target;
+        if (other.isStatic) return;
+        // only stop bodies that are falling and were above the platform before this frame's movement
+        const otherBottom = other.worldArea().bbox().pos.y + other.worldArea().bbox().height;
+        const top = platform.worldArea().bbox().pos.y;
+        const maxOverlap = Math.max(0, other.vel.y) * k.dt() + 2;
+        if (other.isDroppingThrough || other.vel.y < 0 || otherBottom - top > maxOverlap) {
+            col.preventResolution();
+        }
+    });
+}
+
+// moves along the polyline (or polygon) of the Tiled object, carries players standing on it
+// custom properties: width/height of the platform in map pixels and speed in map pixels per second
+function addMovingPlatform(k: KaboomCtx, collider: ColliderObject) {
+    const width = getNumber(collider, "width", 32);
+    const height = getNumber(collider, "height", 8);
+    const speed = getNumber(collider, "speed", 30);
+
+    // path in world pixels, a closed path returns to its first point
+    const points = collider.path.map((point) => k.vec2(collider.x + point.x, collider.y + point.y).scale(scale));
+    if (collider.isClosedPath) points.push(points[0]);
+    const segmentLengths = points.slice(1).map((point, index) => point.dist(points[index]));
+    const pathLength = segmentLengths.reduce((sum, length) => sum + length, 0);
+
+    // platform is centered on the path
+    const offset = k.vec2(width, height).scale(scale / 2);
+    const platform = k.add([
+        ...solidComps(k, 0, 0, width, height, "#c08497"),
+        { distance: 0 }, // how far along the path the platform has travelled
+        "movingPlatform", // tag
+    ]);
+
+    // position on the path after travelling the passed distance
+    function pointAt(distance: number) {
+        for (let i = 0; i < segmentLengths.length; i++) {
+            if (distance <= segmentLengths[i]) {
+                return points[i].lerp(points[i + 1], segmentLengths[i] > 0 ? distance / segmentLengths[i] : 0);
+            }
+            distance -= segmentLengths[i];
+        }
+        return points[points.length - 1];
+    }
+
+    platform.onUpdate(() => {
+        if (pathLength === 0) return;
+        platform.distance = (platform.distance + speed * scale * k.dt()) % (pathLength * 2);
+        // a closed path loops, an open one goes back and forth
+        const distance = collider.isClosedPath
+            ? platform.distance % pathLength
+            : pathLength - Math.abs(platform.distance - pathLength);
+        platform.pos = pointAt(distance).sub(offset);
+    });
+    platform.pos = points[0].sub(offset);
+}
+
+// breaks a moment after a player stands on it and comes back later
+// custom properties: delay before breaking and respawn time, both in seconds
+function addCrumblingBlock(k: KaboomCtx, collider: ColliderObject) {
+    const delay = getNumber(collider, "delay", 0.5);
+    const respawn = getNumber(collider, "respawn", 3);
+
+    const block = k.add([
+        ...solidComps(k, collider.x, collider.y, collider.width, collider.height, "#d9a38f"),
+        k.opacity(1),
+        { isCrumbling: false },
+        "crumblingBlock", // tag
+    ]);
+
+    block.onUpdate(async () => {
+        if (block.isCrumbling) return;
+        // dying players have no body anymore (see playDeathSequence())
+        if (!k.get("player").some((player) => player.is("body") && player.curPlatform() === block)) return;
+
+        block.isCrumbling = true;
+        // flicker until the block breaks
+        const flicker = k.loop(0.08, () => (block.opacity = block.opacity === 1 ? 0.5 : 1));
+        await k.wait(delay);
+        flicker.cancel();
+        k.destroy(block);
+        k.wait(respawn, () => addCrumblingBlock(k, collider));
+    });
+}
+
+// solid ground that hurts players touching it (see makePlayer() in entities.ts)
+// custom properties: damage dealt on contact
+function addSpikes(k: KaboomCtx, collider: ColliderObject) {
+    k.add([
+        ...solidComps(k, collider.x, collider.y, collider.width, collider.height, "#8c8c9c"),
+        { damage: getNumber(collider, "damage", 1) },
+        "hazard", // tag
+    ]);
+}
+
+// blocks the way until it is hit by a spit out star
+function addStarBlock(k: KaboomCtx, collider: ColliderObject) {
+    const block = k.add([
+        ...solidComps(k, collider.x, collider.y, collider.width, collider.height, "#ffd35c"),
+        "starBlock", // tag
+    ]);
+    block.add([
+        k.sprite("assets", { anim: "shootingStar" }),
+        k.anchor("center"),
+        k.scale(scale / 2),
+        k.pos((collider.width * scale) / 2, (collider.height * scale) / 2),
+    ]);
+
+    block.onCollide("shootingStar", (shootingStar: GameObj) => {
+        k.destroy(shootingStar);
+        k.destroy(block);
+        playSound(k, "starHit");
+    });
+}
+
+// add new collider kinds here and use the same name as the type (class) of the object in Tiled
+export const colliderRegistry: Record<string, ColliderFactory> = {
+    oneway: addOneWayPlatform,
+    moving: addMovingPlatform,
+    crumbling: addCrumblingBlock,
+    spikes: addSpikes,
+    starblock: addStarBlock,
+};
+
+// collider kinds that need a polyline or polygon path instead of a rectangle
+export const pathColliderTypes = ["moving"];
+
+// adds all special colliders of the level, their state is reset on every attempt since they are rebuilt each time
+export function addColliders(k: KaboomCtx, colliders: ColliderObject[]) {
+    for (const collider of colliders) {
+        colliderRegistry[collider.type](k, collider);
+    }
+}
\ No newline at end of file
@@ -1 +1,2 @@
-export const scale = 4; // workaround for pixel scaling bug in Kaboom, this gets added as a prop to the Kaboom constant
\ No newline at end of file
+export const scale = 4; // workaround for pixel scaling bug in Kaboom, this gets added as a prop to the Kaboom constant
+export const tileSize = 16; // size of a map tile in pixels before scaling, the game resolution is 16x9 tiles
\ No newline at end of file
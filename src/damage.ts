@@ -0,0 +1,99 @@
+// damage model for the players: invincibility frames, knockback and the death sequence
+// everything that hurts a player (enemies, bosses, hazards, projectiles) goes through damagePlayer()
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { abilities } from "./abilities";
+import { playSound } from "./audio";
+import { scale } from "./constants";
+import type { PlayerGameObj } from "./entities";
+
+// tuning values for taking damage
+export const damageSettings = {
+    invulnerableTime: 1.5, // seconds after a hit during which the player can not be hurt again
+    blinkInterval: 0.1, // seconds between opacity changes while invulnerable
+    knockbackSpeed: 400, // horizontal speed away from the source of the damage
+    knockbackJump: 500, // upward force applied when hit
+    knockbackTime: 0.25, // seconds the player can not move after a hit
+    deathJump: 900, // upward force of the death animation
+    deathPause: 1.5, // seconds between dying and respawning
+};
+
+// damage dealt when touching the source, set as a "damage" property on enemies, hazards, projectiles and bosses
+export function getContactDamage(source: GameObj) {
+    return typeof source.damage === "number" ? source.damage : 1;
+}
+
+// hurts the player unless they are currently invulnerable, returns whether the damage was applied
+// the source decides the knockback direction, projectiles are used up by the hit
+export function damagePlayer(k: KaboomCtx, player: PlayerGameObj, source: GameObj, amount = getContactDamage(source)) {
+    if (player.isDying || player.isInvulnerable || player.isInvincible) return false;
+
+    if (source.is("projectile")) k.destroy(source);
+
+    player.hurt(amount); // triggers the death event when the health reaches 0 (see makePlayer())
+    if (player.hp() <= 0) return true;
+    playSound(k, "hurt"); // the death sequence has its own sound
+
+    // invincibility frames, the player blinks until they can be hurt again
+    player.isInvulnerable = true;
+    const blink = k.loop(damageSettings.blinkInterval, () => {
+        player.opacity = player.opacity === 1 ? 0.3 : 1;
+    });
+    k.wait(damageSettings.invulnerableTime, () => {
+        blink.cancel();
+        player.opacity = 1;
+        player.isInvulnerable = false;
+    });
+
+    // knockback away from the source, the controls are ignored while it lasts (see setControls())
+    const direction = player.worldArea().bbox().center().x < source.worldArea().bbox().center().x ? -1 : 1;
+    player.isKnockedBack = true;
+    player.jump(damageSettings.knockbackJump);
+    const knockback = player.onUpdate(() => player.move(direction * damageSettings.knockbackSpeed, 0));
+    k.wait(damageSettings.knockbackTime, () => {
+        knockback.cancel();
+        player.isKnockedBack = false;
+    });
+
+    return true;
+}
+
+// the player hops up and falls off the screen, resolves once it is time to respawn
+export async function playDeathSequence(k: KaboomCtx, player: PlayerGameObj) {
+    player.isDying = true;
+    playSound(k, "death");
+    player.isInhaling = false;
+    player.play("kirbInhaling");
+    player.opacity = 1;
+
+    // no more collisions with platforms, the death animation falls through everything
+    player.unuse("body");
+    let velocityY = -damageSettings.deathJump;
+    const fall = player.onUpdate(() => {
+        velocityY += k.getGravity() * k.dt();
+        player.move(0, velocityY);
+    });
+
+    await k.wait(damageSettings.deathPause);
+    fall.cancel();
+}
+
+// brings a player back with full health at the passed position (map pixels), the copy ability is lost
+export function revivePlayer(k: KaboomCtx, player: PlayerGameObj, x: number, y: number) {
+    if (player.ability) abilities[player.ability].onStop?.(k, player);
+    player.ability = null;
+    player.color = k.Color.WHITE;
+    player.isFull = false;
+    player.swallowed = null;
+    player.isInhaling = false;
+    player.invincibleTime = 0; // ends a running invincibility candy on the next frame
+    player.get("inhaleEffect")[0].opacity = 0;
+
+    if (!player.is("body")) player.use(k.body()); // removed by the death sequence
+    player.vel = k.vec2(0);
+    player.pos = k.vec2(x * scale, y * scale);
+    player.setHP(player.maxHP() ?? player.hp());
+    player.opacity = 1;
+    player.isDying = false;
+    player.play("kirbIdle");
+}
\ No newline at end of file
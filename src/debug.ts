@@ -0,0 +1,134 @@
+// developer overlay for tuning hitboxes and levels, toggled with the ` key (backquote) during a level
+// while visible: F8 freezes the game, F10 steps a single frame, F7 cycles the slow motion speed,
+// F4 reloads the level json from the server and clicking teleports the first player to the mouse
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { scale } from "./constants";
+import { isGamePaused } from "./pause";
+import { replayState } from "./replay";
+import { SpawnPoint } from "./utils";
+
+const slowMotionSpeeds = [1, 0.5, 0.25, 0.1]; // time scales cycled through with F7
+
+type DebugState = {
+    isVisible: boolean; // kept between scenes so the overlay stays open when the level restarts
+    message: string; // last result of a reload, shown in the panel
+};
+
+const debugState: DebugState = {
+    isVisible: false,
+    message: "",
+};
+
+// tags of a game object, Kaboom stores tags as components that only have an id
+function getTags(obj: GameObj) {
+    return Object.keys(obj.inspect()).filter((id) => Object.keys(obj.c(id) ?? {}).length === 1);
+}
+
+// adds the overlay to the current level scene, reload builds the level again from its json file
+export function makeDebugOverlay(
+    k: KaboomCtx,
+    spawnPoints: Record<string, SpawnPoint[]>,
+    reload: () => Promise<void>
+) {
+    // drawn in world space on top of the level, the text size is divided by the zoom so it stays readable
+    const world = k.add([k.z(200)]);
+    world.onDraw(() => {
+        if (!debugState.isVisible) return;
+        const textSize = 12 / k.camScale().x;
+
+        // every area with its tags
+        for (const obj of k.get("*", { recursive: true })) {
+            if (!obj.is("area")) continue;
+            const area = obj.worldArea();
+            k.drawPolygon({ pts: area.pts, fill: false, outline: { width: 2, color: k.Color.fromHex("#00c2ff") } });
+            k.drawText({
+                text: getTags(obj).join(" "),
+                size: textSize,
+                pos: area.bbox().pos,
+                anchor: "botleft",
+                color: k.Color.fromHex("#00c2ff"),
+            });
+        }
+
+        // current state of enemies and bosses
+        for (const obj of k.get("state")) {
+            if (!obj.is("enemy") && !obj.is("boss")) continue;
+            const bbox = obj.worldArea().bbox();
+            k.drawText({
+                text: obj.state,
+                size: textSize * 1.5,
+                pos: k.vec2(bbox.center().x, bbox.pos.y - textSize * 1.5),
+                anchor: "bot",
+                color: k.Color.fromHex("#ffd35c"),
+            });
+        }
+
+        // spawn points from the map, positions are the top left corner of the spawned object
+        for (const [name, points] of Object.entries(spawnPoints)) {
+            for (const point of points) {
+                const pos = k.vec2(point.x, point.y).scale(scale);
+                k.drawCircle({ pos, radius: 6, color: k.Color.fromHex("#d6336c") });
+                k.drawText({ text: `${name} #${point.id ?? "-"}`, size: textSize, pos, color: k.Color.fromHex("#d6336c") });
+            }
+        }
+    });
+
+    // fixed panel with the numbers, drawn even while the game is frozen since only updates are skipped
+    const panel = k.add([k.fixed(), k.z(201)]);
+    panel.onDraw(() => {
+        if (!debugState.isVisible) return;
+        const spawnList = Object.entries(spawnPoints)
+            .map(([name, points]) => `${name}: ${points.map((point) => `(${point.x}, ${point.y})`).join(" ")}`)
+            .join("\n");
+        const text = [
+            `FPS ${k.debug.fps()}  objects ${k.debug.numObjects()}`,
+            `speed ${k.debug.timeScale.toFixed(2)}${k.debug.paused ? "  FROZEN" : ""}`,
+            "F8 freeze  F10 step  F7 slow motion  F4 reload  click teleport",
+            debugState.message,
+            "",
+            spawnList,
+        ].join("\n");
+        k.drawRect({ width: 460, height: k.height(), pos: k.vec2(k.width() - 460, 0), color: k.Color.BLACK, opacity: 0.5 });
+        k.drawText({ text, size: 14, pos: k.vec2(k.width() - 450, 10), width: 440, color: k.Color.WHITE });
+    });
+
+    k.onKeyPress("`", () => (debugState.isVisible = !debugState.isVisible));
+
+    // the remaining keys only work while the overlay is visible
+    k.onKeyPress((key) => {
+        if (!debugState.isVisible) return;
+        switch (key) {
+            case "f8":
+                k.debug.paused = !k.debug.paused;
+                break;
+            case "f10":
+                k.debug.paused = true;
+                k.debug.stepFrame();
+                break;
+            case "f7": {
+                // replays set the time scale every frame and the pause menu restores it when closed, see replay.ts and pause.ts
+                if (replayState.mode === "replay" || isGamePaused()) break;
+                const index = slowMotionSpeeds.indexOf(k.debug.timeScale);
+                k.debug.timeScale = slowMotionSpeeds[(index + 1) % slowMotionSpeeds.length];
+                break;
+            }
+            case "f4":
+                reload()
+                    .then(() => (debugState.message = `reloaded at ${new Date().toLocaleTimeString()}`))
+                    .catch((error: Error) => {
+                        debugState.message = "reload failed, see the console";
+                        console.error(error);
+                    });
+                break;
+        }
+    });
+
+    k.onMousePress("left", () => {
+        if (!debugState.isVisible) return;
+        const player = k.get("player")[0];
+        if (!player) return;
+        player.pos = k.toWorld(k.mousePos()).sub(player.worldArea().bbox().pos.sub(player.pos)); // area lands under the cursor
+        player.vel = k.vec2(0);
+    });
+}
\ No newline at end of file
@@ -0,0 +1,221 @@
+// enemy registry: every enemy that can be placed in the "spawnpoints" layer in Tiled is defined here
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { AbilityName } from "./abilities";
+import { playSound } from "./audio";
+import { scale } from "./constants";
+import { EnemyReaction, enemyReactions, flyBehavior, jumpBehavior, patrolBehavior } from "./enemyBehaviors";
+import { addScore } from "./state";
+import { SpawnPoint } from "./utils";
+
+// tuning values for a single enemy, can be overridden per spawn point with custom properties in Tiled
+// the behavior parts are implemented in enemyBehaviors.ts, not every behavior uses every option
+export type EnemyOptions = {
+    speed: number; // movement speed in pixels per second
+    patrolDistance: number; // distance in map pixels (before scaling) to walk in each direction
+    respawnInterval: number; // seconds between spawns, 0 --> only spawn once when the level starts
+    turnAtWalls: boolean; // walking enemies turn around in front of walls
+    turnAtLedges: boolean; // walking enemies turn around instead of walking off the platform
+    reaction: EnemyReaction; // walking enemies chase or flee from a player within the sight range
+    sightRange: number; // distance in map pixels at which a player is noticed
+    inhaleResistance: number; // 0 --> pulled in at full speed, 1 --> not pulled in at all (the player has to get close)
+    swoop: boolean; // flying enemies dive to the height of a player in sight
+};
+
+// options every enemy starts from, the registry only lists the values that differ
+const defaultEnemyOptions: EnemyOptions = {
+    speed: 0,
+    patrolDistance: 0,
+    respawnInterval: 0,
+    turnAtWalls: false,
+    turnAtLedges: false,
+    reaction: "none",
+    sightRange: 96,
+    inhaleResistance: 0,
+    swoop: false,
+};
+
+// AI for an enemy, sets up its state machine and movement after the game object is created (see enemyBehaviors.ts)
+type EnemyBehavior = (k: KaboomCtx, enemy: GameObj, options: EnemyOptions) => void;
+
+// describes an enemy type, the key in the registry is the spawn point name used in Tiled
+type EnemyDefinition = {
+    anim: string; // animation from the "assets" sprite
+    hitbox: { x: number; y: number; width: number; height: number }; // relative to the sprite, before scaling
+    isFlying: boolean; // flying enemies are not affected by gravity
+    canBeInhaled: boolean; // whether the player's inhaleZone can pull in and swallow the enemy
+    ability?: AbilityName; // ability the player gets when swallowing the enemy
+    points: number; // added to the score when the enemy is defeated or swallowed
+    damage: number; // health the player loses when touching the enemy
+    behavior: EnemyBehavior;
+    defaults: EnemyOptions;
+};
+
+// removes an enemy defeated by the player and rewards its points
+// dropped ability stars are inhalable too and remember the enemy type of their ability, but give no points
+export function defeatEnemy(k: KaboomCtx, enemy: GameObj) {
+    if (enemy.is("enemy")) addScore(enemyRegistry[enemy.enemyType]?.points ?? 0);
+    k.destroy(enemy);
+}
+
+// logic for inhaling and shooting out enemies, resistance --> see inhaleResistance in EnemyOptions
+export function makeInhalable(k: KaboomCtx, enemy: GameObj, resistance = 0) {
+
+    enemy.inhaledBy = null; // player whose inhaleZone the enemy is in
+
+    // while enemy is within the hitbox of the inhaleZone of a player, make the enemy inhalable by that player
+    enemy.onCollide("inhaleZone", (inhaleZone: GameObj) => {
+        enemy.isInhalable = true; // this happens even if the player is not currently using the inhale-skill (inhaleZone hitbox could still be invisible)
+        enemy.inhaledBy = inhaleZone.parent; // the inhaleZone is a child of the player
+    });
+
+    // revert the isInhalable status if the enemy leaves the player's inhaleZone hitbox
+    enemy.onCollideEnd("inhaleZone", (inhaleZone: GameObj) => {
+        if (enemy.inhaledBy !== inhaleZone.parent) return; // left the zone of a different player
+        enemy.isInhalable = false;
+        enemy.inhaledBy = null;
+    });
+
+    // if the enemy gets hit with the shootingStar projectile, destroy the game objects for both (enemy & shootingStar)
+    enemy.onCollide("shootingStar", (shootingStar: GameObj) => {
+        defeatEnemy(k, enemy);
+        k.destroy(shootingStar);
+        playSound(k, "starHit");
+    });
+
+    // enemies touching the fire breath of the fire ability are burned
+    enemy.onCollide("fireBreath", () => {
+        defeatEnemy(k, enemy);
+    });
+
+    let struggleTime = 0; // seconds spent being pulled in, counted with k.dt() so the wriggle stops while paused and replays exactly
+
+    enemy.onUpdate(() => { // runs every frame while specified enemy game object exists
+        const player = enemy.inhaledBy;
+        if (player?.isInhaling && enemy.isInhalable) { // player is using the inhale skill and enemy is within inhaleZone hitbox
+            const pull = 800 * (1 - k.clamp(resistance, 0, 1)); // enemies that struggle are pulled in slower
+            player.direction === "right" ? enemy.move(-pull, 0) : enemy.move(pull, 0); // decide which direction to move enemy object when inhaled
+            struggleTime += k.dt();
+            if (resistance > 0) enemy.flipX = Math.floor(struggleTime * 12) % 2 === 0; // wriggles while struggling
+        }
+    });
+}
+
+// add new enemies here and place spawn points with the same name in Tiled
+export const enemyRegistry: Record<string, EnemyDefinition> = {
+    flame: {
+        anim: "flame",
+        hitbox: { x: 4, y: 6, width: 8, height: 10 },
+        isFlying: false,
+        canBeInhaled: true,
+        ability: "fire",
+        points: 200,
+        damage: 1,
+        behavior: jumpBehavior,
+        defaults: { ...defaultEnemyOptions, speed: 120 }, // speed of the jumps towards or away from the player
+    },
+    guy: {
+        anim: "guyWalk",
+        hitbox: { x: 2, y: 3.9, width: 12, height: 12 },
+        isFlying: false,
+        canBeInhaled: true,
+        ability: "dash",
+        points: 200,
+        damage: 1,
+        behavior: patrolBehavior,
+        defaults: { ...defaultEnemyOptions, speed: 100, patrolDistance: 50, turnAtWalls: true, turnAtLedges: true },
+    },
+    bird: {
+        anim: "bird",
+        hitbox: { x: 4, y: 6, width: 8, height: 10 },
+        isFlying: true,
+        canBeInhaled: true,
+        ability: "glide",
+        points: 300,
+        damage: 1,
+        behavior: flyBehavior,
+        defaults: { ...defaultEnemyOptions, speed: 200, respawnInterval: 10, sightRange: 160 },
+    },
+};
+
+// merges the defaults of an enemy with the custom properties of its spawn point, properties of the wrong type are ignored
+function getEnemyOptions(definition: EnemyDefinition, spawnPoint: SpawnPoint): EnemyOptions {
+    const options: Record<string, unknown> = { ...definition.defaults };
+    for (const key of Object.keys(options)) {
+        const value = spawnPoint.properties[key];
+        if (typeof value === typeof options[key]) options[key] = value;
+    }
+    if (!enemyReactions.includes(options.reaction as EnemyReaction)) {
+        console.warn(`Unknown reaction "${options.reaction}" on spawn point ${spawnPoint.id}, expected one of ${enemyReactions.join(", ")}`);
+        options.reaction = definition.defaults.reaction;
+    }
+    return options as EnemyOptions;
+}
+
+// creates a single enemy of the given type and adds it to the game
+export function makeEnemy(k: KaboomCtx, type: string, spawnPoint: SpawnPoint, options: EnemyOptions) {
+    const definition = enemyRegistry[type];
+    const { hitbox } = definition;
+
+    const enemy = k.add([
+        k.sprite("assets", { anim: definition.anim }), // sprite selection
+        k.scale(scale), // scale the sprite
+        k.pos(spawnPoint.x * scale, spawnPoint.y * scale), // position of enemy
+        k.area({ // hitbox
+            shape: new k.Rect(k.vec2(hitbox.x, hitbox.y), hitbox.width, hitbox.height),
+            collisionIgnore: ["enemy"], // make enemies not collide with each other
+        }),
+        // makes this game object "solid" to interact with platforms, flying enemies are not affected by gravity
+        k.body({ isStatic: definition.isFlying }),
+        // isInhalable flips to true when inside hitbox of player's inhaleZone, spawnId is set by spawnOnce()
+        { isInhalable: false, enemyType: type, damage: definition.damage, spawnId: undefined as number | undefined },
+        "enemy", // tag
+    ]);
+
+    if (definition.canBeInhaled) {
+        makeInhalable(k, enemy, options.inhaleResistance); // manages movement in-and-out of the the player's inhaleZone hitbox
+    }
+
+    definition.behavior(k, enemy, options);
+
+    return enemy;
+}
+
+// options computed by spawnEnemies() for each spawn point, respawning at a checkpoint reuses them
+const spawnOptions = new WeakMap<SpawnPoint, EnemyOptions>();
+
+// spawns the enemies for all spawn points of the level that have an entry in the registry
+export function spawnEnemies(k: KaboomCtx, spawnPoints: Record<string, SpawnPoint[]>) {
+    for (const [type, points] of Object.entries(spawnPoints)) {
+        const definition = enemyRegistry[type];
+        if (!definition) continue; // not an enemy, e.g. the player spawn
+
+        for (const spawnPoint of points) {
+            const options = getEnemyOptions(definition, spawnPoint);
+            spawnOptions.set(spawnPoint, options);
+            if (options.respawnInterval > 0) {
+                k.loop(options.respawnInterval, () => makeEnemy(k, type, spawnPoint, options)); // spawn at a set interval
+            } else {
+                spawnOnce(k, type, spawnPoint, options);
+            }
+        }
+    }
+}
+
+// enemies that only spawn once remember their spawn point, used to restore them at a checkpoint (see checkpoints.ts)
+function spawnOnce(k: KaboomCtx, type: string, spawnPoint: SpawnPoint, options: EnemyOptions) {
+    const enemy = makeEnemy(k, type, spawnPoint, options);
+    enemy.spawnId = spawnPoint.id;
+}
+
+// spawns the enemies that only spawn once again, spawnIds --> Tiled object ids of the spawn points to use
+// the spawn points have to be the ones passed to spawnEnemies() before
+export function respawnEnemies(k: KaboomCtx, spawnPoints: Record<string, SpawnPoint[]>, spawnIds: number[]) {
+    for (const [type, points] of Object.entries(spawnPoints)) {
+        if (!enemyRegistry[type]) continue;
+        for (const spawnPoint of points) {
+            const options = spawnOptions.get(spawnPoint);
+            if (options && spawnPoint.id !== undefined && spawnIds.includes(spawnPoint.id)) spawnOnce(k, type, spawnPoint, options);
+        }
+    }
+}
\ No newline at end of file
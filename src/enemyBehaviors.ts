@@ -0,0 +1,198 @@
+// behavior toolkit for the enemy registry (enemies.ts): the state machines of the enemies and the terrain and player
+// checks they share, the parts of a behavior are switched on per spawn point with custom properties in Tiled (see EnemyOptions)
+
+import { GameObj, KaboomCtx, Vec2 } from "kaboom";
+import { scale } from "./constants";
+import type { EnemyOptions } from "./enemies";
+
+// what a walking enemy does while a player is within its sight range
+export type EnemyReaction = "none" | "chase" | "flee";
+
+export const enemyReactions: EnemyReaction[] = ["none", "chase", "flee"];
+
+const reactionSpeedFactor = 1.5; // enemies chase and flee faster than they patrol
+const sightLossFactor = 1.5; // a player has to get this much further away than the sight range to lose the enemy again
+const probeDistance = 2; // map pixels in front of and below the hitbox that are checked for walls and ground
+
+// closest player, enemies and bosses aim at this player
+export function getClosestPlayer(k: KaboomCtx, obj: GameObj): GameObj | null {
+    const players = k.get("player");
+    if (players.length === 0) return null;
+    return players.reduce((a, b) => (a.pos.dist(obj.pos) < b.pos.dist(obj.pos) ? a : b));
+}
+
+function getCenter(obj: GameObj): Vec2 {
+    return obj.worldArea().bbox().center();
+}
+
+// closest player that is alive and within the passed distance in map pixels, null when there is none
+export function getPlayerInRange(k: KaboomCtx, enemy: GameObj, range: number): GameObj | null {
+    const player = getClosestPlayer(k, enemy);
+    if (!player || player.isDying) return null;
+    return getCenter(player).dist(getCenter(enemy)) <= range * scale ? player : null;
+}
+
+// whether a point (world coordinates) is inside terrain, one-way platforms can be walked through and only count as ground
+function isSolidAt(k: KaboomCtx, point: Vec2, includeOneWay: boolean) {
+    return k
+        .get("platform", { recursive: true }) // static platforms are children of the map
+        .some((platform) => (includeOneWay || !platform.is("oneWay")) && platform.hasPoint(point));
+}
+
+// direction --> -1 for left, 1 for right
+export function isWallAhead(k: KaboomCtx, enemy: GameObj, direction: number) {
+    const bbox = enemy.worldArea().bbox();
+    const x = direction < 0 ? bbox.pos.x - probeDistance * scale : bbox.pos.x + bbox.width + probeDistance * scale;
+    return isSolidAt(k, k.vec2(x, bbox.pos.y + bbox.height / 2), false);
+}
+
+// the next steps in the direction would walk off the platform the enemy stands on
+export function isLedgeAhead(k: KaboomCtx, enemy: GameObj, direction: number) {
+    const bbox = enemy.worldArea().bbox();
+    const x = direction < 0 ? bbox.pos.x - probeDistance * scale : bbox.pos.x + bbox.width + probeDistance * scale;
+    return !isSolidAt(k, k.vec2(x, bbox.pos.y + bbox.height + probeDistance * scale), true);
+}
+
+// checks the walls and ledges the enemy was told to avoid (turnAtWalls / turnAtLedges)
+function canWalk(k: KaboomCtx, enemy: GameObj, direction: number, options: EnemyOptions) {
+    if (options.turnAtWalls && isWallAhead(k, enemy, direction)) return false;
+    if (options.turnAtLedges && enemy.isGrounded() && isLedgeAhead(k, enemy, direction)) return false;
+    return true;
+}
+
+// direction to move in while reacting to the player, 0 when the player is right above or below the enemy
+function getReactionDirection(enemy: GameObj, player: GameObj, reaction: EnemyReaction) {
+    const distance = getCenter(player).x - getCenter(enemy).x;
+    if (Math.abs(distance) < 4 * scale) return 0;
+    const towardsPlayer = Math.sign(distance);
+    return reaction === "flee" ? -towardsPlayer : towardsPlayer;
+}
+
+// repeatedly makes the enemy jump after being idle for 1 second on the ground
+// reacting enemies jump towards (chase) or away from (flee) a player in sight instead of jumping in place
+export function jumpBehavior(k: KaboomCtx, enemy: GameObj, options: EnemyOptions) {
+    enemy.use(k.state("idle", ["idle", "jump"])); // available states for this enemy (default state, [possible states])
+
+    let direction = 0; // horizontal direction of the current jump, 0 --> jumps in place
+
+    enemy.onStateEnter("idle", async () => {
+        await k.wait(1); // wait for 1 second
+        enemy.enterState("jump"); // switch to the jump-state
+    });
+
+    enemy.onStateEnter("jump", async () => {
+        const player = options.reaction === "none" ? null : getPlayerInRange(k, enemy, options.sightRange);
+        direction = player ? getReactionDirection(enemy, player, options.reaction) : 0;
+        if (direction !== 0 && !canWalk(k, enemy, direction, options)) direction = 0; // a ledge counts at the take-off
+        if (direction !== 0) enemy.flipX = direction > 0;
+        enemy.jump(1000);
+    });
+
+    enemy.onStateUpdate("jump", async () => { // runs every frame WHILE in the jump-state
+        if (direction !== 0 && !(options.turnAtWalls && isWallAhead(k, enemy, direction))) {
+            enemy.move(direction * options.speed, 0);
+        }
+        if (enemy.isGrounded()) {
+            enemy.enterState("idle"); // switch to the idle-state
+        }
+    });
+}
+
+// walks left and right, turns early at walls and ledges when told to, chases or flees from a player in sight
+export function patrolBehavior(k: KaboomCtx, enemy: GameObj, options: EnemyOptions) {
+    // available states for this enemy (default state, [possible states])
+    enemy.use(k.state("idle", ["idle", "left", "right", "chase", "flee"]));
+
+    const walkTime = (options.patrolDistance * scale) / options.speed; // seconds needed to cover the patrol distance
+    let walkedTime = 0; // seconds walked in the current direction, counted every frame so the enemy can turn early
+
+    // switches to the chase- or flee-state when a player comes in sight, returns true when it did
+    function react() {
+        if (options.reaction === "none" || !getPlayerInRange(k, enemy, options.sightRange)) return false;
+        enemy.enterState(options.reaction);
+        return true;
+    }
+
+    // walks in the direction until the patrol distance is covered or a wall or ledge is ahead
+    function walk(direction: -1 | 1) {
+        if (react()) return;
+        walkedTime += k.dt();
+        if (walkedTime >= walkTime || !canWalk(k, enemy, direction, options)) {
+            enemy.enterState(direction < 0 ? "right" : "left"); // turn around
+            return;
+        }
+        enemy.move(direction * options.speed, 0);
+    }
+
+    // moves towards or away from the player until the player is out of sight, then goes back to patrolling
+    function followReaction() {
+        const player = getPlayerInRange(k, enemy, options.sightRange * sightLossFactor);
+        if (!player) {
+            enemy.enterState("idle");
+            return;
+        }
+        const direction = getReactionDirection(enemy, player, options.reaction);
+        if (direction === 0) return;
+        enemy.flipX = direction > 0;
+        if (canWalk(k, enemy, direction, options)) enemy.move(direction * options.speed * reactionSpeedFactor, 0);
+    }
+
+    enemy.onStateEnter("idle", async () => {
+        await k.wait(1); // wait for 1 second
+        if (enemy.state === "idle") enemy.enterState("left"); // a player may have come in sight in the meantime
+    });
+
+    enemy.onStateUpdate("idle", react);
+
+    enemy.onStateEnter("left", () => {
+        enemy.flipX = false; // flip the sprite
+        walkedTime = 0;
+    });
+
+    enemy.onStateUpdate("left", () => walk(-1)); // moves enemy WHILE in the left-state
+
+    enemy.onStateEnter("right", () => {
+        enemy.flipX = true; // flip the sprite
+        walkedTime = 0;
+    });
+
+    enemy.onStateUpdate("right", () => walk(1)); // moves enemy WHILE in the right-state
+
+    enemy.onStateUpdate("chase", followReaction);
+    enemy.onStateUpdate("flee", followReaction);
+}
+
+// keeps flying to the left with a pseudo-random speed around the configured one, removed once offscreen
+// swooping birds dive to the height of a player in sight ahead of them and climb back after flying past
+export function flyBehavior(k: KaboomCtx, enemy: GameObj, options: EnemyOptions) {
+    const availableSpeeds = [options.speed / 2, options.speed, options.speed * 1.5]; // one of these will be picked when spawning
+    const speed = k.choose(availableSpeeds); // k.choose() uses the seeded generator, see startLevelClock()
+    const cruiseHeight = enemy.pos.y; // height of the spawn point
+
+    enemy.use(k.state("fly", ["fly", "swoop", "climb"]));
+    enemy.use(k.offscreen({ destroy: true, distance: 400 })); // destroys object when offscreen
+
+    // vertical speed that brings the enemy to the height, slows down when getting close
+    const verticalSpeed = (height: number) => k.clamp((height - enemy.pos.y) * 4, -speed, speed);
+
+    enemy.onStateUpdate("fly", () => {
+        enemy.move(-speed, 0);
+        if (!options.swoop) return;
+        const player = getPlayerInRange(k, enemy, options.sightRange);
+        if (player && getCenter(player).x < getCenter(enemy).x) enemy.enterState("swoop"); // only players ahead of the bird
+    });
+
+    enemy.onStateUpdate("swoop", () => {
+        const player = getClosestPlayer(k, enemy);
+        if (!player || getCenter(player).x > getCenter(enemy).x) {
+            enemy.enterState("climb"); // flew past the player
+            return;
+        }
+        enemy.move(-speed, verticalSpeed(enemy.pos.y + getCenter(player).y - getCenter(enemy).y));
+    });
+
+    enemy.onStateUpdate("climb", () => {
+        enemy.move(-speed, verticalSpeed(cruiseHeight));
+        if (Math.abs(cruiseHeight - enemy.pos.y) < 1) enemy.enterState("fly");
+    });
+}
\ No newline at end of file
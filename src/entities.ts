@@ -1,10 +1,21 @@
-// contains logic for player and mobs
+// contains logic for the player (enemies are defined in enemies.ts)
 
-import { AreaComp, BodyComp, DoubleJumpComp, GameObj, HealthComp, KaboomCtx, OpacityComp, PosComp, ScaleComp, SpriteComp } from "kaboom";
+import { AreaComp, BodyComp, ColorComp, DoubleJumpComp, GameObj, HealthComp, KaboomCtx, OpacityComp, PosComp, ScaleComp, SpriteComp } from "kaboom";
+import { AbilityName, abilities } from "./abilities";
+import { playSound } from "./audio";
+import { restoreCheckpoint, restoreLevelStart } from "./checkpoints";
 import { scale } from "./constants";
+import { damagePlayer, playDeathSequence } from "./damage";
+import { defeatEnemy, enemyRegistry, makeInhalable } from "./enemies";
+import { PlayerInput } from "./input";
+import { isLastLevel } from "./levels";
+import { isGamePaused } from "./pause";
+import { usePickup } from "./pickups";
+import { addScore, loseLife, runState, save } from "./state";
+import { finishTimeAttack, isTimeAttackActive } from "./timeAttack";
 
 // custom type for the player object (modified version of the default KaboomJS GameObj)
-type PlayerGameObj = GameObj<
+export type PlayerGameObj = GameObj<
     SpriteComp &
     AreaComp &
     BodyComp &
@@ -13,36 +24,44 @@ type PlayerGameObj = GameObj<
     DoubleJumpComp &
     HealthComp &
     OpacityComp &
+    ColorComp &
     {
         speed: number;
         direction: string;
         isInhaling: boolean;
         isFull: boolean;
+        swallowed: string | null; // type of the enemy currently in the player's mouth (key in the enemy registry)
+        ability: AbilityName | null; // copy ability slot, filled by swallowing an enemy
+        isDashing: boolean;
+        glideTime: number; // seconds spent gliding since the player last touched the ground
+        isDroppingThrough: boolean; // falls through one-way platforms while true
+        isInvincible: boolean; // set by the invincibility candy, enemies touched are defeated
+        invincibleTime: number; // seconds of invincibility left
+        isInvulnerable: boolean; // invincibility frames after taking damage (see damage.ts)
+        isKnockedBack: boolean; // controls are ignored while true
+        isDying: boolean; // death sequence is playing
     }
 >;
 
-// defines types of player actions that needs an input
-type Action = "moveLeft" | "moveRight" | "inhale";
-
-// specifies valid input keys for performing an Action
-type KeyMap = Record<"left" | "a" | "right" | "d" | "z" | "1", Action>;
-
-// tracks which actions are currently being triggered by the player (used to handle the 'multiple inputs scaling the action effect'-bug)
-type ActionState = {
-    moveLeft: boolean;
-    moveRight: boolean;
-    inhale: boolean;
-};
-
-// sets all actionstate defaults to false
-const actionState: ActionState = {
-    moveLeft: false,
-    moveRight: false,
-    inhale: false,
-};
+// removes a life and goes back to the latest checkpoint (or restarts the level when none was reached yet),
+// shows the game over screen when no lives are left
+// in time attack dying only costs time: no life is lost and the timer keeps running, players go back to the latest
+// checkpoint or the start of the level
+function handleDeath(k: KaboomCtx, levelId: string) {
+    if (isTimeAttackActive()) {
+        if (!restoreCheckpoint()) restoreLevelStart();
+        return;
+    }
+    if (loseLife()) {
+        k.go("gameOver");
+        return;
+    }
+    if (!restoreCheckpoint()) k.go(levelId);
+}
 
 // creates game object for the player
-export function makePlayer(k: KaboomCtx, posX: number, posY: number) {
+// levelId --> scene to restart on death, nextLevelId --> scene to go to when reaching the exit
+export function makePlayer(k: KaboomCtx, posX: number, posY: number, levelId: string, nextLevelId: string) {
     const player = k.make([
         // select player sprite from kirby-like.png
         k.sprite("assets", { anim: "kirbIdle" }),
@@ -54,63 +73,118 @@ export function makePlayer(k: KaboomCtx, posX: number, posY: number) {
         k.doubleJump(10), // set the amount of jumps that are allowed
         k.health(3), // set health of the player
         k.opacity(1), // fully visible
+        k.color(), // no tint, changed when the player holds an ability
         // additional custom player attributes, can be accessed like "player.speed" / "player.isInhaling" etc.
         {
             speed: 300,
             direction: "right",
             isInhaling: false,
             isFull: false,
+            swallowed: null as string | null,
+            ability: null as AbilityName | null,
+            isDashing: false,
+            glideTime: 0,
+            isDroppingThrough: false,
+            isInvincible: false,
+            invincibleTime: 0,
+            isInvulnerable: false,
+            isKnockedBack: false,
+            isDying: false,
         },
         "player", // tag
     ]);
+    player.setMaxHP(3); // health can not be restored above this value
 
-    // define what happens with the player when it collides with an "enemy"-tagged object 
-    player.onCollide("enemy", async (enemy: GameObj) => {
+    // define what happens with the player when it touches an "enemy"-tagged object, checked every frame of contact
+    // so that an enemy still touching the player hurts again once the invincibility frames are over
+    player.onCollideUpdate("enemy", (enemy: GameObj) => {
 
-        // player inhales enemy
-        if (player.isInhaling && enemy.isInhalable) {
+        // player inhales enemy (only if the enemy is inside this player's inhaleZone)
+        if (player.isInhaling && enemy.isInhalable && enemy.inhaledBy === player) {
             player.isInhaling = false; // disable the inhaling-status
             k.destroy(enemy); // remove the enemy object
             player.isFull = true; // change status of player to apply new sprite
+            player.swallowed = enemy.enemyType; // remember what was inhaled, decides the ability when swallowing
+            playSound(k, "swallow");
+            addScore(enemyRegistry[enemy.enemyType]?.points ?? 0);
             return;
         }
 
-        // player dies
-        if (player.hp() === 0) {
-            k.destroy(player); // removes the player object
-            k.go("level-1"); // respawn at start of current level (or latest checkpoint)
+        // enemies run into during a dash tackle or while invincible are defeated instead of hurting the player
+        if (player.isDashing || player.isInvincible) {
+            defeatEnemy(k, enemy);
             return;
         }
 
-        // reduce player hp by 1 (default value)
-        player.hurt();
-        // display "flashing" animation for player sprite when hurt
-        await k.tween( // tween allows us to gradually change a value from one to another
-            player.opacity, // start value
-            0, // end value
-            0.05, // duration in seconds
-            (val) => (player.opacity = val), // tween magic and where to assign result
-            k.easings.linear // rate of change
-        );
-        await k.tween( // reverse previous tween to create blinking effect
-            player.opacity,
-            1,
-            0.05,
-            (val) => (player.opacity = val),
-            k.easings.linear
-        );
+        damagePlayer(k, player, enemy); // damage depends on the enemy type, see the enemy registry
+    });
+
+    // hazards like spikes hurt on contact, the knockback bounces the player off
+    player.onCollideUpdate("hazard", (hazard: GameObj) => {
+        damagePlayer(k, player, hazard);
+    });
+
+    // touching a boss hurts the player the same way as an enemy, a dash damages the boss instead (see bosses.ts)
+    player.onCollideUpdate("boss", (boss: GameObj) => {
+        if (player.isDashing) return;
+        damagePlayer(k, player, boss);
+    });
+
+    // runs when the health reaches 0, see damage.ts
+    player.onDeath(async () => {
+        if (player.isDying) return;
+        await playDeathSequence(k, player);
+        handleDeath(k, levelId); // respawn at start of current level (or latest checkpoint)
+    });
+
+    // collecting items placed in the "pickups" layer, see the pickup registry in pickups.ts
+    player.onCollide("pickup", (pickup: GameObj) => {
+        usePickup(k, player, pickup);
+    });
+
+    // re-inhaling a dropped ability star, works the same way as inhaling an enemy
+    // checked every frame of contact, a player already touching the star can start inhaling afterwards
+    player.onCollideUpdate("abilityStar", (abilityStar: GameObj) => {
+        if (player.isInhaling && abilityStar.isInhalable && abilityStar.inhaledBy === player && !player.isFull) {
+            player.isInhaling = false;
+            k.destroy(abilityStar);
+            player.isFull = true;
+            player.swallowed = abilityStar.enemyType;
+            playSound(k, "swallow");
+        }
+    });
+
+    // reset the glide time when landing, allows the player to glide again on the next jump
+    player.onGround(() => {
+        player.glideTime = 0;
     });
 
+    // used to record the time and score of the level when reaching the exit
+    // the time adds up k.dt() so that it stands still while the game is paused (see pause.ts)
+    let levelTime = 0;
+    player.onUpdate(() => (levelTime += k.dt()));
+    const levelStartScore = runState.score;
+
     // logic for when the player finishes a level
-    player.onCollide("exit", () => {
-        k.go("level-1"); // placeholder value (replace with logic for "next scene" instead)
+    // checked every frame while touching the exit, so a player already waiting there leaves once the last boss is defeated
+    let hasExited = false;
+    player.onCollideUpdate("exit", () => {
+        if (hasExited || player.isDying) return;
+        if (k.get("boss").length > 0) return; // the exit stays closed until every boss of the level is defeated
+        hasExited = true; // the scene changes on the next frame
+        playSound(k, "exit");
+        if (isTimeAttackActive()) { // stops the timer and shows the results instead of moving on, see timeAttack.ts
+            finishTimeAttack(k);
+            return;
+        }
+        save.completeLevel(levelId, nextLevelId, runState.score - levelStartScore, levelTime); // also unlocks the next level
+        k.go(isLastLevel(levelId) ? "credits" : nextLevelId); // move on to the next level in the campaign
     });
 
-    // assembles the game object for the inhale effect
-    const inhaleEffect = k.add([
+    // assembles the game object for the inhale effect, a child of the player so every player has their own
+    const inhaleEffect = player.add([
         k.sprite("assets", { anim: "kirbInhaleEffect" }), // define which assets to use for the sprite
-        k.pos(),
-        k.scale(scale),
+        k.pos(), // scaled together with the player (parent)
         k.opacity(0), // initially not visible (toggled when player uses the "inhale skill")
         "inhaleEffect", // tag
     ]);
@@ -124,109 +198,107 @@ export function makePlayer(k: KaboomCtx, posX: number, posY: number) {
 
     // logic to position and flip the inhaleZone hitbox depending on the player's direction
     inhaleZone.onUpdate(() => { // create an event that runs every frame as long as the game object exists
-        // since the inhale zone is a child of the player object, the position of it will be relative to the player (parent)
+        // since the inhale zone and effect are children of the player object, their positions will be relative to the player (parent)
         if (player.direction === "left") {
             inhaleZone.pos = k.vec2(-14, 8), // THIS is relative to the player position
-                inhaleEffect.pos = k.vec2(player.pos.x - 60, player.pos.y + 0),
+                inhaleEffect.pos = k.vec2(-15, 0),
                 inhaleEffect.flipX = true;
         } else { // player direction === right
             inhaleZone.pos = k.vec2(14, 8),
-                inhaleEffect.pos = k.vec2(player.pos.x + 60, player.pos.y + 0),
+                inhaleEffect.pos = k.vec2(15, 0),
                 inhaleEffect.flipX = false;
         }
     });
 
-    // logic to handle player falling down from platforms
-    player.onUpdate(() => {
-        if (player.pos.y > 2000) { // higher y-value --> further down on the game canvas
-            k.go("level-1"); // (placeholder value) respawn player, will also reset the game state
-        }
+    // logic to handle player falling down from platforms, kill planes are placed in the "camera" layer in Tiled
+    player.onCollide("killPlane", () => {
+        if (player.isDying) return;
+        player.setHP(0); // starts the death sequence (see onDeath above)
     });
 
     return player; // finished player object
 };
 
 // defines player controls for the game
-export function setControls(k: KaboomCtx, player: PlayerGameObj) {
+// input --> action state of this player (see createInput() in input.ts), every player has their own
+export function setControls(k: KaboomCtx, player: PlayerGameObj, input: PlayerInput) {
     // reference variable to the inhale effect we added in makePlayer()
-    const inhaleEffectRef = k.get("inhaleEffect")[0]; // k.get() returns an array with all objects tagged with "inhaleEffect", we want the first (and only)
-
-    // defines control scheme and allows multiple inputs for the same Action
-    const keyMappings: KeyMap = {
-        left: "moveLeft",
-        a: "moveLeft",
-        right: "moveRight",
-        d: "moveRight",
-        z: "inhale",
-        '1': "inhale"
-    };
-
-    k.onKeyDown((key: string) => { // pressed key will be handled as any string
-        if (!(key in keyMappings)) return; // invalid input, do nothing
-        const action = keyMappings[key as keyof KeyMap]; // fetch action for pressed key
-        actionState[action] = true; // sets the actionstate for the requested action to active
-    });
+    const inhaleEffectRef = player.get("inhaleEffect")[0]; // player.get() returns an array with all children tagged with "inhaleEffect", we want the first (and only)
 
-    // jumping
-    k.onKeyPress((key) => {
-        if (key == 'x' || key == 'space') { // x or spacebar
+    let wasInhaleDown = false; // inhale action of the last frame that was not paused, catches releases during the pause
+
+    // runs every frame while the player exists, stops together with the player instead of the scene
+    player.onUpdate(() => {
+        input.update(); // read keyboard and gamepad before handling any actions
+        if (player.isDying) return; // no control over the player during the death sequence
+        if (isGamePaused()) return; // the pause menu has its own input, see pause.ts
+
+        // jumping
+        if (input.isPressed("jump")) {
+            const velocityY = player.vel.y;
             player.doubleJump(); // amount is limited in the playerObject creation
+            if (player.vel.y !== velocityY) playSound(k, "jump"); // no sound once the jumps are used up
         }
-    });
 
-    // spit out an enemy
-    k.onKeyRelease((key: string) => {
-        if (!(key in keyMappings)) return; // invalid input, do nothing
-        const action = keyMappings[key as keyof KeyMap]; // fetch action for pressed key
-        actionState[action] = false; // sets the actionstate for the requested action to inactive
-
-        if (key == 'z' || key == '1') {
-            if (player.isFull) { // an enemy is currently swallowed (ready to be spit out)
-                player.play("kirbInhaling"); // same sprite/animation for inhaling and spitting
-                const shootingStar = k.add([ // create game object for spitting ability
-                    k.sprite("assets", {
-                        anim: "shootingStar",
-                        flipX: player.direction === "right",
-                    }),
-                    // definitions for size and position of the ability sprite
-                    k.area({ shape: new k.Rect(k.vec2(5, 4), 6, 6) }),
-                    k.pos(
-                        player.direction === "left" ? player.pos.x - 80 : player.pos.x + 80,
-                        player.pos.y + 5
-                    ),
-                    k.scale(scale),
-                    player.direction === "left" // move the sprite
-                        ? k.move(k.LEFT, 800)
-                        : k.move(k.RIGHT, 800),
-                    "shootingStar", // tag
-                ]);
-                // destroy the projectile when it collides with terrain
-                shootingStar.onCollide("platform", () => k.destroy(shootingStar));
-
-                player.isFull = false; // reset isFull status to allow player to swallow a new enemy
-                k.wait(1, () => player.play("kirbIdle")); // wait one second before reverting player sprite to the idle status
-                return;
+        // use the copy ability instead of inhaling
+        if (input.isPressed("inhale") && player.ability) {
+            abilities[player.ability].onStart(k, player);
+        }
+
+        // swallow the enemy in the player's mouth to copy its ability
+        if (input.isPressed("swallow") && player.isFull && player.swallowed) {
+            const ability = enemyRegistry[player.swallowed]?.ability;
+            if (ability) { // some enemies are swallowed without giving an ability
+                dropAbility(k, player); // an ability that is already held gets replaced
+                player.ability = ability;
+                player.color = k.Color.fromHex(abilities[ability].color); // tint the sprite to show the current ability
             }
+            player.isFull = false;
+            player.swallowed = null;
+            player.play("kirbIdle");
+        } else if (input.isPressed("swallow") && player.curPlatform()?.is("oneWay")) {
+            // drop down through a one-way platform, the same action swallows when the player is full
+            player.isDroppingThrough = true;
+            player.jump(-1); // jump() is the only way to let go of the current platform, a negative force starts falling
+            k.wait(0.25, () => (player.isDroppingThrough = false));
+        }
 
-            inhaleEffectRef.opacity = 0; // hide inhale effect
-            player.isInhaling = false; // no longer inhaling
-            player.play("kirbIdle"); // revert to default sprite
+        // let go of the current ability, it can be inhaled again as long as the star is around
+        if (input.isPressed("dropAbility") && player.ability) {
+            const enemyType = Object.keys(enemyRegistry).find(
+                (type) => enemyRegistry[type].ability === player.ability
+            );
+            dropAbility(k, player);
+            if (enemyType) makeAbilityStar(k, player, enemyType);
         }
-    });
 
-    k.onUpdate(() => {
-        if (actionState.moveLeft && !actionState.moveRight) {
+        // sound of the inhale starting, the inhaling itself happens while the action is held (see below)
+        if (input.isPressed("inhale") && !player.ability && !player.isFull) {
+            playSound(k, "inhaleStart");
+        }
+
+        // spit out an enemy or stop inhaling, also when the action was released while the game was paused
+        if (input.isReleased("inhale") || (wasInhaleDown && !input.isDown("inhale"))) {
+            releaseInhale(k, player, inhaleEffectRef);
+        }
+        wasInhaleDown = input.isDown("inhale");
+
+        // knockback moves the player instead of the controls, see damagePlayer()
+        const canMove = !player.isKnockedBack;
+        if (canMove && input.isDown("moveLeft") && !input.isDown("moveRight")) {
             player.direction = "left";
             player.flipX = true; // flip the sprite 
             player.move(-player.speed, 0); // we use - to move to the left
-        } else if (actionState.moveRight && !actionState.moveLeft) {
+        } else if (canMove && input.isDown("moveRight") && !input.isDown("moveLeft")) {
             player.direction = "right";
             player.flipX = false;
             player.move(player.speed, 0);
         }
 
-        if (actionState.inhale) {
-            if (player.isFull) {
+        if (input.isDown("inhale")) {
+            if (player.ability) {
+                abilities[player.ability].onHold?.(k, player); // abilities replace inhaling
+            } else if (player.isFull) {
                 player.play("kirbFull"); // play kirbFull animation
                 inhaleEffectRef.opacity = 0; // hide the inhale effect
             } else {
@@ -238,136 +310,78 @@ export function setControls(k: KaboomCtx, player: PlayerGameObj) {
     });
 };
 
-// logic for inhaling and shooting out enemies
-export function makeInhalable(k: KaboomCtx, enemy: GameObj) {
-
-    // while enemy is within the hitbox of the inhaleZone of the player, make the enemy inhalable
-    enemy.onCollide("inhaleZone", () => {
-        enemy.isInhalable = true; // this happens even if the player is not currently using the inhale-skill (inhaleZone hitbox could still be invisible)
-    });
-
-    // revert the isInhalable status if the enemy leaves the player's inhaleZone hitbox
-    enemy.onCollideEnd("inhaleZone", () => {
-        enemy.isInhalable = false; 
-    });
+// runs when the inhale action is released: stops the ability, spits out a swallowed enemy or stops inhaling
+function releaseInhale(k: KaboomCtx, player: PlayerGameObj, inhaleEffectRef: GameObj) {
+    if (player.ability) { // the inhale action is used for the copy ability while one is held
+        abilities[player.ability].onStop?.(k, player);
+        return;
+    }
 
-    // if the enemy gets hit with the shootingStar projectile, destroy the game objects for both (enemy & shootingStar)
-    enemy.onCollide("shootingStar", (shootingStar: GameObj) => {
-        k.destroy(enemy);
-        k.destroy(shootingStar);
-    });
+    if (player.isFull) { // an enemy is currently swallowed (ready to be spit out)
+        player.play("kirbInhaling"); // same sprite/animation for inhaling and spitting
+        playSound(k, "spit");
+        const shootingStar = k.add([ // create game object for spitting ability
+            k.sprite("assets", {
+                anim: "shootingStar",
+                flipX: player.direction === "right",
+            }),
+            // definitions for size and position of the ability sprite
+            k.area({ shape: new k.Rect(k.vec2(5, 4), 6, 6) }),
+            k.pos(
+                player.direction === "left" ? player.pos.x - 80 : player.pos.x + 80,
+                player.pos.y + 5
+            ),
+            k.scale(scale),
+            player.direction === "left" // move the sprite
+                ? k.move(k.LEFT, 800)
+                : k.move(k.RIGHT, 800),
+            "shootingStar", // tag
+        ]);
+        // destroy the projectile when it collides with terrain
+        shootingStar.onCollide("platform", () => k.destroy(shootingStar));
+
+        player.isFull = false; // reset isFull status to allow player to swallow a new enemy
+        player.swallowed = null; // the spit out enemy does not give an ability
+        k.wait(1, () => player.play("kirbIdle")); // wait one second before reverting player sprite to the idle status
+        return;
+    }
 
-    const playerRef = k.get("player")[0]; // fetch reference to the player game object
-    enemy.onUpdate(() => { // runs every frame while specified enemy game object exists
-        if (playerRef.isInhaling && enemy.isInhalable) { // player is using the inhale skill and enemy is within inhaleZone hitbox
-            playerRef.direction === "right" ? enemy.move(-800, 0) : enemy.move(800, 0); // decide which direction to move enemy object when inhaled
-        }
-    });
+    if (player.isInhaling) playSound(k, "inhaleStop");
+    inhaleEffectRef.opacity = 0; // hide inhale effect
+    player.isInhaling = false; // no longer inhaling
+    player.play("kirbIdle"); // revert to default sprite
 }
 
-export function makeFlameEnemy(k: KaboomCtx, posX: number, posY: number) {
-    const flame = k.add([
-        k.sprite("assets", { anim: "flame" }), // sprite selection
-        k.scale(scale), // scale the sprite
-        k.pos(posX * scale, posY * scale), // position of enemy
-        k.area({ // hitbox
-            shape: new k.Rect(k.vec2(4, 6), 8, 10),
-            collisionIgnore: ["enemy"], // make enemies not collide with each other
-        }),
-        k.body(), // makes this game object "solid" to interact with gravity, platforms etc
-        k.state("idle", ["idle", "jump"]), // available states for this enemy (default state, [possible states])
-        { isInhalable: false }, // flips to true when inside hitbox of player's inhaleZone
-        "enemy", // tag
-    ]);
-
-    makeInhalable(k, flame); // manages movement in-and-out of the the player's inhaleZone hitbox 
-
-    // states for flame enemy, simple AI that repeatedly makes the enemy jump after being idle for 1 second on the ground 
-    flame.onStateEnter("idle", async () => {
-        await k.wait(1); // wait for 1 second
-        flame.enterState("jump"); // switch to the jump-state
-    });
-
-    flame.onStateEnter("jump", async () => {
-        flame.jump(1000);
-    });
-
-    flame.onStateUpdate("jump", async () => { // runs every frame WHILE in the jump-state
-        if (flame.isGrounded()) { 
-            flame.enterState("idle"); // switch to the idle-state
-        }
-    });
-
-    return flame;
+// removes the copy ability from the player and restores the default sprite color
+function dropAbility(k: KaboomCtx, player: PlayerGameObj) {
+    if (!player.ability) return;
+    abilities[player.ability].onStop?.(k, player); // clean up e.g. an active fire breath
+    player.ability = null;
+    player.color = k.Color.WHITE; // white --> no tint
 }
 
-export function makeGuyEnemy(k: KaboomCtx, posX: number, posY: number) {
-    const guy = k.add([
-        k.sprite("assets", { anim: "guyWalk" }), // sprite selection
+// creates a bouncing star holding a dropped ability, inhaling it gives the ability back when swallowed
+export function makeAbilityStar(k: KaboomCtx, player: PlayerGameObj, enemyType: string) {
+    const direction = player.direction === "left" ? 1 : -1; // the star bounces away behind the player
+    const abilityStar = k.add([
+        k.sprite("assets", { anim: "shootingStar" }), // sprite selection
         k.scale(scale), // scale the sprite
-        k.pos(posX * scale, posY * scale), // position of enemy
-        k.area({ // hitbox
-            shape: new k.Rect(k.vec2(2, 3.9), 12, 12),
-            collisionIgnore: ["enemy"], // make enemies not collide with each other
+        k.pos(player.pos.x + direction * 40, player.pos.y - 20), // spawn slightly above and behind the player
+        k.area({
+            shape: new k.Rect(k.vec2(5, 4), 6, 6),
+            collisionIgnore: ["enemy"], // pass through enemies
         }),
-        k.body(), // makes this game object "solid" to interact with gravity, platforms etc
-        k.state("idle", ["idle", "left", "right"]), // available states for this enemy (default state, [possible states])
-        { isInhalable: false, speed: 100 }, // flips to true when inside hitbox of player's inhaleZone
-        "enemy", // tag
+        k.body(), // affected by gravity, lands on platforms
+        { isInhalable: false, enemyType }, // enemyType decides the ability given when swallowed again
+        "abilityStar", // tag
     ]);
 
-    makeInhalable(k, guy); // manages movement in-and-out of the the player's inhaleZone hitbox 
-
-    // states for guy enemy, simple AI that repeatedly makes the enemy walk left and right 
-    guy.onStateEnter("idle", async () => {
-        await k.wait(1); // wait for 1 second
-        guy.enterState("left"); // switch to the left-state
-    });
-
-    guy.onStateEnter("left", async () => {
-        guy.flipX = false; // flip the sprite
-        await k.wait(2); // wait for 2 seconds
-        guy.enterState("right"); // switch to the right-state
-    });
-
-    guy.onStateUpdate("left", () => { // moves enemy WHILE in the left-state
-        guy.move(-guy.speed, 0);
-    });
-
-    guy.onStateEnter("right", async () => {
-        guy.flipX = true; // flip the sprite
-        await k.wait(2); // wait for 2 seconds
-        guy.enterState("left"); // switch to the left-state
-    });
-
-    guy.onStateUpdate("right", () => { // moves enemy WHILE in the right-state
-        guy.move(guy.speed, 0);
-    });
-
-    return guy;
-}
-
-export function makeBirdEnemy(
-    k: KaboomCtx,
-    posX: number, 
-    posY: number,
-    speed: number
-) {
-    const bird = k.add([
-        k.sprite("assets", { anim: "bird" }), // sprite selection
-        k.scale(scale), // scale the sprite
-        k.pos(posX * scale, posY * scale), // position of enemy
-        k.area({ // hitbox
-            shape: new k.Rect(k.vec2(4, 6), 8, 10),
-            collisionIgnore: ["enemy"], // make enemies not collide with each other
-        }),
-        k.body({ isStatic: true }), // make bird not affected by gravity 
-        k.move(k.LEFT, speed), // bird keeps flying to the left
-        k.offscreen({ destroy: true, distance: 400 }), // destroys object when offscreen
-        "enemy" // tag
-    ]);
+    makeInhalable(k, abilityStar); // can be pulled in by the inhaleZone like an enemy
 
-    makeInhalable(k, bird);
+    abilityStar.jump(600); // initial hop when dropped
+    abilityStar.onGround(() => abilityStar.jump(400)); // keep bouncing on every landing
+    abilityStar.onUpdate(() => abilityStar.move(direction * 100, 0));
+    k.wait(8, () => k.destroy(abilityStar)); // the ability is lost if the star is not inhaled in time
 
-    return bird;
+    return abilityStar;
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+// heads-up display with health, lives, score and the player's current ability
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { PlayerGameObj } from "./entities";
+import { runState } from "./state";
+
+// health, full indicator and ability of a single player, one row per player
+function addPlayerStatus(k: KaboomCtx, hud: GameObj, player: PlayerGameObj, row: number) {
+    const status = hud.add([k.pos(0, row * 60)]);
+
+    // label is only needed when there is more than one player
+    const label = status.add([
+        k.text(runState.playerCount > 1 ? `P${row + 1}` : "", { size: 24 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.pos(0, 10),
+    ]);
+
+    // one heart per hit point, empty hearts show missing health
+    const hearts = status.add([
+        k.text("", { size: 40 }),
+        k.color(k.Color.fromHex("#d6336c")),
+        k.pos(label.text ? 48 : 0, 0),
+    ]);
+
+    // shown while an enemy is in the player's mouth
+    const fullIcon = status.add([
+        k.sprite("assets", { anim: "kirbFull" }),
+        k.scale(3),
+        k.pos(hearts.pos.x + 140, -4),
+        k.opacity(0),
+    ]);
+
+    const ability = status.add([
+        k.text("", { size: 24 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.pos(fullIcon.pos.x + 56, 10),
+    ]);
+
+    status.onUpdate(() => {
+        const hp = player.exists() ? Math.max(0, player.hp()) : 0;
+        const maxHP = player.maxHP() ?? hp;
+        hearts.text = "♥".repeat(hp) + "♡".repeat(Math.max(0, maxHP - hp));
+        fullIcon.opacity = player.isFull ? 1 : 0;
+        ability.text = player.ability ? player.ability.toUpperCase() : "";
+    });
+}
+
+// creates the HUD layer for the current scene, reads the players and run state every frame
+export function makeHud(k: KaboomCtx, players: PlayerGameObj[], levelId: string) {
+    const hud = k.add([
+        k.pos(24, 16), // distance from the top left corner of the canvas
+        k.fixed(), // makes this object (and its children) unaffected by the camera
+        k.z(100), // draw on top of the level
+        "hud", // tag
+    ]);
+
+    players.forEach((player, index) => addPlayerStatus(k, hud, player, index));
+
+    const score = hud.add([
+        k.text("", { size: 32, align: "right" }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.anchor("topright"),
+        k.pos(k.width() - 48, 0), // right side of the canvas (parent is already offset by 24)
+    ]);
+
+    // player icon with the number of lives left (shared between players)
+    const lives = hud.add([
+        k.text("", { size: 32 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.anchor("topright"),
+        k.pos(k.width() - 48, 52),
+    ]);
+    hud.add([
+        k.sprite("assets", { anim: "kirbIdle" }),
+        k.scale(3),
+        k.anchor("topright"),
+        k.pos(k.width() - 120, 40),
+    ]);
+
+    // collected pickups of the current level, hidden in levels without pickups
+    const pickups = hud.add([
+        k.text("", { size: 24 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.anchor("topright"),
+        k.pos(k.width() - 48, 100),
+    ]);
+
+    hud.onUpdate(() => {
+        lives.text = `x${runState.lives}`;
+        const levelPickups = runState.pickups[levelId];
+        pickups.text = levelPickups?.total ? `ITEMS ${levelPickups.collected.length}/${levelPickups.total}` : "";
+        score.text = `SCORE ${runState.score.toString().padStart(6, "0")}`;
+    });
+
+    return hud;
+}
\ No newline at end of file
@@ -0,0 +1,212 @@
+// action-based input layer, maps keyboard keys and gamepad buttons to the actions used by the game logic
+
+import { GamepadButton, Key, KaboomCtx } from "kaboom";
+import { getReplayedActions, recordActions } from "./replay";
+import { save } from "./state";
+
+// every action the player can trigger, menus use the same actions (see menu.ts)
+export type InputAction = "moveLeft" | "moveRight" | "jump" | "inhale" | "swallow" | "dropAbility" | "pause" | "up";
+
+// the index of an action is its bit in recordings (see encodeActions()), add new actions at the end
+export const inputActions: InputAction[] = ["moveLeft", "moveRight", "jump", "inhale", "swallow", "dropAbility", "pause", "up"];
+
+// names shown in the options menu
+export const actionLabels: Record<InputAction, string> = {
+    moveLeft: "Move left",
+    moveRight: "Move right",
+    jump: "Jump",
+    inhale: "Inhale / spit",
+    swallow: "Swallow",
+    dropAbility: "Drop ability",
+    pause: "Pause / back",
+    up: "Up",
+};
+
+// which actions are held down during the current frame
+export type ActionState = Record<InputAction, boolean>;
+
+// default controls, both control sets from the README are active at the same time
+export const defaultKeyBindings: Record<InputAction, Key[]> = {
+    moveLeft: ["left", "a"],
+    moveRight: ["right", "d"],
+    jump: ["space", "x"],
+    inhale: ["z", "1"],
+    swallow: ["down", "s"],
+    dropAbility: ["c", "2"],
+    pause: ["escape", "p"],
+    up: ["up", "w"],
+};
+
+// button names follow Kaboom's standard gamepad layout (south = A on Xbox / cross on PlayStation)
+export const defaultGamepadBindings: Record<InputAction, GamepadButton[]> = {
+    moveLeft: ["dpad-left"],
+    moveRight: ["dpad-right"],
+    jump: ["south"],
+    inhale: ["west"],
+    swallow: ["dpad-down"],
+    dropAbility: ["north"],
+    pause: ["start"],
+    up: ["dpad-up"],
+};
+
+const stickDeadzone = 0.5; // how far the left stick has to be pushed to count as movement
+
+// default bindings combined with the ones changed in the options menu
+export function getKeyBindings(): Record<InputAction, Key[]> {
+    return { ...defaultKeyBindings, ...save.data.settings.keyBindings } as Record<InputAction, Key[]>;
+}
+
+export function getGamepadBindings(): Record<InputAction, GamepadButton[]> {
+    return { ...defaultGamepadBindings, ...save.data.settings.gamepadBindings } as Record<InputAction, GamepadButton[]>;
+}
+
+// replaces the keys for an action and saves the change, takes effect the next time a scene creates its input
+export function rebindKey(action: InputAction, key: Key) {
+    save.updateSettings({ keyBindings: { ...save.data.settings.keyBindings, [action]: [key] } });
+}
+
+export function rebindGamepadButton(action: InputAction, button: GamepadButton) {
+    save.updateSettings({ gamepadBindings: { ...save.data.settings.gamepadBindings, [action]: [button] } });
+}
+
+// removes all changed bindings
+export function resetBindings() {
+    save.updateSettings({ keyBindings: {}, gamepadBindings: {} });
+}
+
+// packs an action state into a number (one bit per action in the order of inputActions), used for recordings
+export function encodeActions(state: ActionState) {
+    return inputActions.reduce((bits, action, index) => (state[action] ? bits | (1 << index) : bits), 0);
+}
+
+export function decodeActions(bits: number): ActionState {
+    const state = createActionState();
+    inputActions.forEach((action, index) => (state[action] = (bits & (1 << index)) !== 0));
+    return state;
+}
+
+function createActionState(): ActionState {
+    return {
+        moveLeft: false,
+        moveRight: false,
+        jump: false,
+        inhale: false,
+        swallow: false,
+        dropAbility: false,
+        pause: false,
+        up: false,
+    };
+}
+
+// where the input of a single player comes from
+export type InputSource = {
+    player: number | null; // index of the player, used to record and replay the input of each player separately, null for menus
+    keys: Record<InputAction, Key[]>;
+    buttons: Record<InputAction, GamepadButton[]>;
+    gamepad: number | "any"; // index of the gamepad (in order of connection), "any" reads all connected gamepads
+};
+
+// keyboard is split in two halves for local 2-player mode, each player also gets their own gamepad
+export const twoPlayerKeyBindings: Record<InputAction, Key[]>[] = [
+    {
+        moveLeft: ["a"],
+        moveRight: ["d"],
+        jump: ["w"],
+        inhale: ["f"],
+        swallow: ["s"],
+        dropAbility: ["g"],
+        pause: ["escape"],
+        up: [], // jumps with the up keys
+    },
+    {
+        moveLeft: ["left"],
+        moveRight: ["right"],
+        jump: ["up"],
+        inhale: ["."],
+        swallow: ["down"],
+        dropAbility: [","],
+        pause: ["p"],
+        up: [],
+    },
+];
+
+// input sources for every player, single player uses the (rebindable) default bindings and any gamepad
+export function getInputSources(playerCount: number): InputSource[] {
+    if (playerCount === 1) {
+        return [{ player: 0, keys: getKeyBindings(), buttons: getGamepadBindings(), gamepad: "any" }];
+    }
+    return twoPlayerKeyBindings.slice(0, playerCount).map((keys, index) => ({
+        player: index,
+        keys,
+        buttons: getGamepadBindings(),
+        gamepad: index,
+    }));
+}
+
+// menus accept the (rebindable) single player bindings and every gamepad, bindings are read again on every frame
+// so that changes from the options menu apply right away
+export function getMenuInputSource(): InputSource {
+    return {
+        player: null,
+        get keys() {
+            return getKeyBindings();
+        },
+        get buttons() {
+            return getGamepadBindings();
+        },
+        gamepad: "any",
+    };
+}
+
+// tracks the action state of one player, call update() once per frame before reading it
+export function createInput(k: KaboomCtx, source: InputSource) {
+    let current = createActionState();
+    let previous = createActionState();
+
+    // gamepad buttons and left stick of the gamepad(s) assigned to this player
+    function isButtonDown(button: GamepadButton) {
+        if (source.gamepad === "any") return k.isGamepadButtonDown(button);
+        return k.getGamepads()[source.gamepad]?.isDown(button) ?? false;
+    }
+    function getStick() {
+        if (source.gamepad === "any") return k.getGamepadStick("left");
+        return k.getGamepads()[source.gamepad]?.getStick("left") ?? k.vec2(0);
+    }
+
+    return {
+        // reads keyboard and gamepad into the action state for the current frame
+        update() {
+            previous = current;
+
+            // replays ignore the keyboard and gamepad completely
+            const replayed = source.player === null ? null : getReplayedActions(source.player);
+            if (replayed !== null) {
+                current = decodeActions(replayed);
+                return;
+            }
+
+            current = createActionState();
+
+            for (const action of inputActions) {
+                current[action] =
+                    source.keys[action].some((key) => k.isKeyDown(key)) ||
+                    source.buttons[action].some(isButtonDown);
+            }
+            const stick = getStick();
+            current.moveLeft ||= stick.x < -stickDeadzone;
+            current.moveRight ||= stick.x > stickDeadzone;
+            current.up ||= stick.y < -stickDeadzone;
+            current.swallow ||= stick.y > stickDeadzone; // down, like the d-pad
+
+            if (source.player !== null) recordActions(source.player, encodeActions(current)); // only stored while recording
+        },
+        // action is held down
+        isDown: (action: InputAction) => current[action],
+        // action started this frame
+        isPressed: (action: InputAction) => current[action] && !previous[action],
+        // action stopped this frame
+        isReleased: (action: InputAction) => !current[action] && previous[action],
+    };
+}
+
+export type PlayerInput = ReturnType<typeof createInput>;
\ No newline at end of file
@@ -10,4 +10,5 @@ export const k = kaboom({
     scale,
     letterbox: true,
     global: false,
+    debug: false, // Kaboom's own debug keys (F1, F7 - F10) are replaced by the debug overlay, see debug.ts
 });
\ No newline at end of file
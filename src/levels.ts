@@ -0,0 +1,31 @@
+// registry of all levels in the campaign, levels are played in the order they appear in the list
+
+// settings for a single level
+export type LevelConfig = {
+    id: string; // name of the Tiled .json file in /public, also used as the scene name
+    name: string; // shown in the level select
+    bgColor: string; // hex value for the background color of the level
+    music: string; // background music track, see musicTracks in audio.ts
+};
+
+// add new levels here, the scene body in main.ts is shared between all of them
+// camera bounds and zones are part of the map, see the "camera" layer in camera.ts
+export const levels: LevelConfig[] = [
+    {
+        id: "level-1",
+        name: "Pink Plains",
+        bgColor: "#f7d7db",
+        music: "music-level-1",
+    },
+];
+
+// returns the id of the level after the passed one, wraps around to the first level after finishing the last
+export function getNextLevelId(id: string) {
+    const index = levels.findIndex((level) => level.id === id);
+    return levels[(index + 1) % levels.length].id;
+}
+
+// the credits are shown after clearing the last level of the campaign
+export function isLastLevel(id: string) {
+    return levels[levels.length - 1].id === id;
+}
\ No newline at end of file
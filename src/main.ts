@@ -1,8 +1,24 @@
 // entry point of the project
 
-import { makeBirdEnemy, makeFlameEnemy, makeGuyEnemy, makePlayer, setControls } from "./entities";
+import { loadAudio, playMusic, setVolume, stopMusic } from "./audio";
+import { setupArenas, spawnBosses } from "./bosses";
+import { makeCamera } from "./camera";
+import { makeDebugOverlay } from "./debug";
+import { setupCheckpoints } from "./checkpoints";
+import { addColliders } from "./colliders";
+import { spawnEnemies } from "./enemies";
+import { makePlayer, setControls } from "./entities";
+import { makeHud } from "./hud";
+import { actionLabels, createInput, getGamepadBindings, getInputSources, getKeyBindings, inputActions, InputAction, PlayerInput, rebindGamepadButton, rebindKey, resetBindings } from "./input";
 import { k } from "./kaboomCtx";
-import { makeMap } from "./utils";
+import { getNextLevelId, levels } from "./levels";
+import { makeMenu, MenuEntry } from "./menu";
+import { makePauseMenu } from "./pause";
+import { spawnPickups } from "./pickups";
+import { initReplay, startLevelClock } from "./replay";
+import { resetRun, runState, save } from "./state";
+import { formatTime, formatTimeDifference, getTimeAttackResult, makeTimeAttack, resetTimeAttackAttempt, startTimeAttack, stopTimeAttack } from "./timeAttack";
+import { LevelMap, makeMap } from "./utils";
 
 async function gameSetup() {
     k.loadSprite("assets", "./kirby-like.png", {
@@ -21,77 +37,435 @@ async function gameSetup() {
         },
     });
 
-    k.loadSprite("level-1", "./level-1.png");
+    // music and sound effects, see audio.ts
+    loadAudio(k);
 
-    // fetch data for level 1 and rename references for clarity and separation for multiple levels
-    const { map: level1Layout, spawnPoints: level1SpawnPoints } = await makeMap(
-        k,
-        "level-1"
-    );
+    // maps are built once per level and shared by every attempt, the debug overlay can build them again
+    const levelMaps: Record<string, LevelMap> = {};
 
-    k.scene("level-1", () => {
-        k.setGravity(2100);
-        // assemble the game object for level 1
+    // build one scene per level in the registry, all levels share the same scene body
+    for (const level of levels) {
+        // fetch map data for the level
+        levelMaps[level.id] = await makeMap(k, level.id);
+
+        k.scene(level.id, () => {
+            const {
+                map: levelLayout,
+                spawnPoints: levelSpawnPoints,
+                camera: levelCamera,
+                colliders: levelColliders,
+                pickups: levelPickups,
+            } = levelMaps[level.id];
+
+            // seeds the random number generator and records or replays the frame times (replay.ts)
+            startLevelClock(k, level.id, runState.playerCount);
+
+            // every time attack attempt starts with the same lives, score and pickups (timeAttack.ts)
+            resetTimeAttackAttempt();
+
+            // keeps playing without restarting when the level is restarted
+            playMusic(k, level.music);
+
+            k.setGravity(2100);
+            // assemble the game object for the level
+            k.add([
+                // draw a rectangle, fill with width+height from the game canvas
+                k.rect(k.width(), k.height()), 
+                // add background color
+                k.color(k.Color.fromHex(level.bgColor)),
+                // makes this object unaffected by the camera
+                k.fixed(),
+            ]);
+
+            // add layout to the game
+            k.add(levelLayout);
+
+            // add moving platforms, hazards etc., see the collider registry in colliders.ts
+            addColliders(k, levelColliders);
+
+            // add the items that were not collected yet, see the pickup registry in pickups.ts
+            spawnPickups(k, level.id, levelPickups);
+
+            // create one player object per player, each with their own controls
+            const inputs: PlayerInput[] = [];
+            const players = getInputSources(runState.playerCount).map((inputSource, index) => {
+                // uses a separate "player" spawn point per player if the map has one, otherwise spawns next to player 1
+                const spawnPoint = levelSpawnPoints.player[index] ?? {
+                    x: levelSpawnPoints.player[0].x + index * 16,
+                    y: levelSpawnPoints.player[0].y,
+                };
+                const player = makePlayer(
+                    k,
+                    spawnPoint.x,
+                    spawnPoint.y,
+                    level.id,
+                    getNextLevelId(level.id)
+                );
+
+                // add controls to the game
+                const input = createInput(k, inputSource);
+                setControls(k, player, input);
+                inputs.push(input);
+
+                // show which player is which when there are several
+                if (runState.playerCount > 1) {
+                    player.add([
+                        k.text(`P${index + 1}`, { size: 6 }), // scaled together with the player
+                        k.anchor("bot"),
+                        k.pos(8, 2),
+                    ]);
+                }
+
+                // add player to the game
+                k.add(player);
+                return player;
+            });
+
+            // checkpoints restore the level when a player dies, see checkpoints.ts
+            setupCheckpoints(k, level.id, players, levelSpawnPoints, levelPickups);
+
+            // show health, lives, score and ability on top of the level
+            makeHud(k, players, level.id);
+
+            // timer, splits and ghost of the time attack mode, nothing is added in the campaign
+            makeTimeAttack(k, players[0], inputs[0]);
+
+            // opened with the pause action, freezes the level until it is closed (pause.ts)
+            makePauseMenu(k, level.id);
+
+            // camera follows the players within the bounds and zones of the "camera" layer (camera.ts)
+            makeCamera(k, players, levelCamera);
+
+            // add enemies to the game, see the enemy registry in enemies.ts
+            spawnEnemies(k, levelSpawnPoints);
+
+            // add bosses and their arenas, see the boss registry in bosses.ts
+            spawnBosses(k, levelSpawnPoints);
+            setupArenas(k);
+
+            // hitboxes, enemy states, frame stepping etc., toggled with the ` key (debug.ts)
+            makeDebugOverlay(k, levelSpawnPoints, async () => {
+                levelMaps[level.id] = await makeMap(k, level.id); // throws when the edited map is invalid, the old one stays
+                k.debug.paused = false;
+                k.go(level.id);
+            });
+        });
+    }
+
+    // shown when the player runs out of lives, leads back to the title screen
+    k.scene("gameOver", () => {
+        stopMusic(k);
         k.add([
-            // draw a rectangle, fill with width+height from the game canvas
-            k.rect(k.width(), k.height()), 
-            // add background color
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#5c2a3a")),
+            k.fixed(),
+        ]);
+        k.add([
+            k.text("GAME OVER", { size: 64 }),
+            k.anchor("center"),
+            k.pos(k.center().x, k.center().y - 60),
+        ]);
+        k.add([
+            k.text(`SCORE ${runState.score}`, { size: 28 }),
+            k.anchor("center"),
+            k.pos(k.center().x, k.center().y + 20),
+        ]);
+
+        const backToTitle = () => {
+            resetRun();
+            k.go("title");
+        };
+        const menu = makeMenu(k, [{ label: "Back to title", onSelect: backToTitle }], {
+            x: k.center().x,
+            y: k.center().y + 100,
+            size: 28,
+            color: "#f7d7db",
+        });
+        menu.onUpdate(() => {
+            if (menu.input.isPressed("pause")) backToTitle();
+        });
+    });
+
+    // first screen of the game, continue from the latest unlocked level or start a new game
+    k.scene("title", () => {
+        stopTimeAttack(); // the level scenes are played as the campaign again
+        playMusic(k, "music-title");
+        k.add([
+            k.rect(k.width(), k.height()),
             k.color(k.Color.fromHex("#f7d7db")),
-            // makes this object unaffected by the camera
             k.fixed(),
         ]);
+        k.add([
+            k.text("KIRBY CLONE", { size: 72 }),
+            k.color(k.Color.fromHex("#d6336c")),
+            k.anchor("center"),
+            k.pos(k.center().x, k.center().y - 160),
+        ]);
 
-        // add layout to the game
-        k.add(level1Layout);
+        // menu entries, "Continue" and "Level select" are only available when there is saved progress
+        const entries: MenuEntry[] = [];
+        if (save.hasProgress()) {
+            entries.push({
+                label: "Continue",
+                onSelect: () => {
+                    resetRun();
+                    const { unlockedLevels } = save.data;
+                    k.go(unlockedLevels[unlockedLevels.length - 1]); // latest unlocked level
+                },
+            });
+            entries.push({ label: "Level select", onSelect: () => k.go("levelSelect") });
+            entries.push({ label: "Time attack", onSelect: () => k.go("timeAttackSelect") });
+        }
+        entries.push({
+            label: "New game",
+            onSelect: () => {
+                resetRun();
+                save.resetProgress();
+                save.unlockLevel(levels[0].id);
+                k.go(levels[0].id);
+            },
+        });
+        // local multiplayer, both players share the keyboard or use one gamepad each
+        const togglePlayers = () => (runState.playerCount = runState.playerCount === 1 ? 2 : 1);
+        entries.push({ label: () => `Players: < ${runState.playerCount} >`, onSelect: togglePlayers, onChange: togglePlayers });
+        entries.push({ label: "Options", onSelect: () => k.go("options") });
+        entries.push({ label: "Credits", onSelect: () => k.go("credits") });
+
+        makeMenu(k, entries, { x: k.center().x, y: k.center().y - 40, spacing: 56 });
+    });
 
-        // create player object
-        const player = makePlayer(
+    // unlocked levels can be replayed from here, shows the best score and time of every cleared level
+    k.scene("levelSelect", () => {
+        k.add([
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#f7d7db")),
+            k.fixed(),
+        ]);
+        k.add([
+            k.text("LEVEL SELECT", { size: 48 }),
+            k.color(k.Color.fromHex("#d6336c")),
+            k.anchor("center"),
+            k.pos(k.center().x, 60),
+        ]);
+
+        const entries: MenuEntry[] = levels.map((level) => ({
+            label: () => {
+                if (!save.data.unlockedLevels.includes(level.id)) return `${level.name} (locked)`;
+                const bestTime = save.data.bestTimes[level.id];
+                if (bestTime === undefined) return level.name;
+                return `${level.name}  ${save.data.bestScores[level.id]} pts  ${bestTime.toFixed(2)}s`;
+            },
+            onSelect: () => {
+                resetRun();
+                k.go(level.id);
+            },
+            isDisabled: () => !save.data.unlockedLevels.includes(level.id),
+        }));
+        entries.push({ label: "Back", onSelect: () => k.go("title") });
+
+        const menu = makeMenu(k, entries, { x: k.center().x, y: 160, size: 28, spacing: 48 });
+        menu.onUpdate(() => {
+            if (menu.input.isPressed("pause")) k.go("title");
+        });
+    });
+
+    // unlocked levels can be raced against the clock and the ghost of the personal best (timeAttack.ts)
+    k.scene("timeAttackSelect", () => {
+        k.add([
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#f7d7db")),
+            k.fixed(),
+        ]);
+        k.add([
+            k.text("TIME ATTACK", { size: 48 }),
+            k.color(k.Color.fromHex("#d6336c")),
+            k.anchor("center"),
+            k.pos(k.center().x, 60),
+        ]);
+
+        const entries: MenuEntry[] = levels.map((level) => ({
+            label: () => {
+                if (!save.data.unlockedLevels.includes(level.id)) return `${level.name} (locked)`;
+                const best = save.data.timeAttack[level.id];
+                return best ? `${level.name}  best ${formatTime(best.time)}` : level.name;
+            },
+            onSelect: () => startTimeAttack(k, level.id),
+            isDisabled: () => !save.data.unlockedLevels.includes(level.id),
+        }));
+        entries.push({ label: "Back", onSelect: () => k.go("title") });
+
+        const menu = makeMenu(k, entries, { x: k.center().x, y: 160, size: 28, spacing: 48 });
+        menu.onUpdate(() => {
+            if (menu.input.isPressed("pause")) k.go("title");
+        });
+    });
+
+    // shown after a time attack run reached the exit, lists the splits compared to the previous personal best
+    k.scene("timeAttackResults", () => {
+        const result = getTimeAttackResult();
+        if (!result) {
+            k.go("timeAttackSelect");
+            return;
+        }
+        const { run, previousBest } = result;
+        const levelName = levels.find((level) => level.id === result.levelId)?.name ?? result.levelId;
+
+        k.add([
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#f7d7db")),
+            k.fixed(),
+        ]);
+        k.add([
+            k.text(levelName.toUpperCase(), { size: 48 }),
+            k.color(k.Color.fromHex("#d6336c")),
+            k.anchor("center"),
+            k.pos(k.center().x, 60),
+        ]);
+
+        // one row per checkpoint and one for the exit, differences are compared with the previous personal best
+        const rows = [...run.splits, run.time].map((time, index) => {
+            const isExit = index === run.splits.length;
+            const bestTime = isExit ? previousBest?.time : previousBest?.splits[index];
+            const difference = bestTime === undefined ? "" : `  ${formatTimeDifference(time - bestTime)}`;
+            return `${isExit ? "Exit" : `Checkpoint ${index + 1}`}  ${formatTime(time)}${difference}`;
+        });
+        const best = result.isNewBest ? "NEW PERSONAL BEST!" : `BEST ${formatTime(previousBest?.time ?? run.time)}`;
+        k.add([
+            k.text([`TIME ${formatTime(run.time)}`, best, "", ...rows].join("\n"), { size: 28, align: "center", lineSpacing: 8 }),
+            k.color(k.Color.fromHex("#5c2a3a")),
+            k.anchor("top"),
+            k.pos(k.center().x, 120),
+        ]);
+
+        const menu = makeMenu(
             k,
-            level1SpawnPoints.player[0].x,
-            level1SpawnPoints.player[0].y
+            [
+                { label: "Retry", onSelect: () => startTimeAttack(k, result.levelId) },
+                { label: "Choose level", onSelect: () => k.go("timeAttackSelect") },
+                { label: "Back to title", onSelect: () => k.go("title") },
+            ],
+            { x: k.center().x, y: k.height() - 160, size: 28, spacing: 48 }
         );
+        menu.onUpdate(() => {
+            if (menu.input.isPressed("pause")) k.go("timeAttackSelect");
+        });
+    });
 
-        // add controls to the game
-        setControls(k, player);
+    // volume channels and the bindings for every action, selecting an action waits for a new key or gamepad button
+    k.scene("options", () => {
+        k.add([
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#f7d7db")),
+            k.fixed(),
+        ]);
+        k.add([
+            k.text("OPTIONS", { size: 48 }),
+            k.color(k.Color.fromHex("#d6336c")),
+            k.anchor("center"),
+            k.pos(k.center().x, 48),
+        ]);
 
-        // add player to the game
-        k.add(player);
+        let waitingFor: InputAction | null = null; // action that is being rebound
 
-        // camera adjustments
-        k.camScale(0.7, 0.7);
-        k.onUpdate(() => { // event that runs every frame (~60 times per second)
-            // make the camera follow the player
-            if (player.pos.x < level1Layout.pos.x + 432) { // stops camera from panning out of bounds at the end of the level
-                k.camPos(player.pos.x + 500, 870); // adjust camera so that the player appears on the left side of the screen at height 870
-            }
+        const volumeLabels = { masterVolume: "Master volume", musicVolume: "Music volume", sfxVolume: "Sound volume" };
+        const volumeChannels = Object.keys(volumeLabels) as (keyof typeof volumeLabels)[];
+        const entries: MenuEntry[] = [
+            // changed with left/right in steps of 10%
+            ...volumeChannels.map((channel) => ({
+                label: () => `${volumeLabels[channel]}: < ${Math.round(save.data.settings[channel] * 100)}% >`,
+                onChange: (direction: -1 | 1) => setVolume(k, channel, save.data.settings[channel] + direction * 0.1),
+            })),
+            ...inputActions.map((action) => ({
+                label: () => {
+                    if (action === waitingFor) return `${actionLabels[action]}: press a key or button (escape to cancel)`;
+                    return `${actionLabels[action]}: ${getKeyBindings()[action].join(", ")} | ${getGamepadBindings()[action].join(", ")}`;
+                },
+                onSelect: () => {
+                    waitingFor = action;
+                    menu.isActive = false; // the next key or button is the new binding
+                },
+            })),
+            { label: "Reset controls", onSelect: resetBindings },
+            { label: "Back", onSelect: () => k.go("title") },
+        ];
+
+        const menu = makeMenu(k, entries, { x: k.center().x, y: 110, size: 22, spacing: 34 });
+        menu.onUpdate(() => {
+            if (menu.isActive && menu.input.isPressed("pause")) k.go("title");
+            // reactivated one frame after rebinding, the key that was just bound does not count as pressed anymore
+            menu.isActive = waitingFor === null;
         });
 
-        // add flame enemies to game: iterates spawnpoints and create game objects
-        for (const flame of level1SpawnPoints.flame) {
-            makeFlameEnemy(k, flame.x, flame.y);
-        }
+        k.onKeyPress((key) => {
+            if (!waitingFor) return;
+            if (key !== "escape") rebindKey(waitingFor, key);
+            waitingFor = null;
+        });
 
-        // add guy enemies to game: iterates spawnpoints and create game objects
-        for (const guy of level1SpawnPoints.guy) {
-            makeGuyEnemy(k, guy.x, guy.y);
-        }
+        k.onGamepadButtonPress((button) => {
+            if (waitingFor) {
+                rebindGamepadButton(waitingFor, button);
+                waitingFor = null;
+            }
+            return button;
+        });
+    });
 
-        // add bird enemies to game: iterates spawnpoints and create game objects with pseudo-random movement speeds
-        for (const bird of level1SpawnPoints.bird) {
-            const availableSpeeds = [100, 200, 300]; // one of these will be picked when spawning the bird
-            k.loop(10, () => { // spawn a bird at a set interval (10 seconds default)
-                makeBirdEnemy(
-                    k,
-                    bird.x,
-                    bird.y,
-                    availableSpeeds[Math.floor(Math.random() * availableSpeeds.length)]
-                );
-            });
-        }
+    // shown after clearing the last level, the text scrolls up and the game returns to the title screen at the end
+    k.scene("credits", () => {
+        playMusic(k, "music-title");
+        k.add([
+            k.rect(k.width(), k.height()),
+            k.color(k.Color.fromHex("#f7d7db")),
+            k.fixed(),
+        ]);
+
+        const credits = k.add([
+            k.text(
+                [
+                    "KIRBY CLONE",
+                    "",
+                    `SCORE ${runState.score}`,
+                    "",
+                    "",
+                    "Made with Kaboom",
+                    "",
+                    "Maps made with Tiled",
+                    "",
+                    "Kirby is a trademark of Nintendo / HAL Laboratory",
+                    "",
+                    "",
+                    "Thanks for playing!",
+                ].join("\n"),
+                { size: 32, align: "center", lineSpacing: 8 }
+            ),
+            k.color(k.Color.fromHex("#5c2a3a")),
+            k.anchor("top"),
+            k.pos(k.center().x, k.height()),
+            k.move(k.UP, 60),
+        ]);
 
+        const menu = makeMenu(k, [{ label: "Back to title", onSelect: () => k.go("title") }], {
+            x: k.center().x,
+            y: k.height() - 40,
+            size: 24,
+            z: 1,
+        });
+        menu.onUpdate(() => {
+            if (menu.input.isPressed("pause") || credits.pos.y + credits.height < 0) k.go("title");
+        });
     });
 
-    k.go("level-1");
+    // "?replay=<file>" in the url skips the menus and plays the recorded level back
+    const recording = await initReplay();
+    if (recording) {
+        runState.playerCount = recording.playerCount;
+        k.go(recording.levelId);
+        return;
+    }
+
+    k.go("title");
 };
 
-gameSetup();
\ No newline at end of file
+// resolves once every level is loaded and the scenes exist, awaited by the headless simulation (simulation/harness.ts)
+export const gameReady = gameSetup();
\ No newline at end of file
@@ -0,0 +1,84 @@
+// vertical menu used by the title screen, level select, options and the pause overlay
+// navigated with the same input actions as the game: up and swallow (down) move the selection, jump confirms,
+// moveLeft/moveRight change values, the pause action is left to the scene (usually "back")
+
+import { KaboomCtx } from "kaboom";
+import { createInput, getMenuInputSource } from "./input";
+
+export type MenuEntry = {
+    label: string | (() => string); // function --> read every frame, e.g. to show the current value of a setting
+    onSelect?: () => void; // jump action
+    onChange?: (direction: -1 | 1) => void; // moveLeft/moveRight, for values like the volume
+    isDisabled?: () => boolean; // greyed out and skipped by the selection, e.g. locked levels
+};
+
+type MenuOptions = {
+    x: number; // center of the first entry
+    y: number;
+    size?: number; // font size
+    spacing?: number; // pixels between the entries
+    color?: string; // hex value of the text color
+    z?: number;
+};
+
+// adds a menu to the current scene, the returned object is used to deactivate the menu (isActive) and to read
+// the pause action from the same input (input.isPressed("pause"))
+export function makeMenu(k: KaboomCtx, entries: MenuEntry[], options: MenuOptions) {
+    const input = createInput(k, getMenuInputSource());
+    const size = options.size ?? 36;
+    const spacing = options.spacing ?? 60;
+
+    const menu = k.add([
+        k.pos(options.x, options.y),
+        k.fixed(), // also used on top of levels (pause overlay), unaffected by the camera
+        k.z(options.z ?? 0),
+        {
+            selected: 0, // index of the selected entry
+            isActive: true, // inactive menus are still drawn but ignore the input
+            input,
+        },
+    ]);
+
+    const labels = entries.map((_, index) =>
+        menu.add([
+            k.text("", { size }),
+            k.color(k.Color.fromHex(options.color ?? "#5c2a3a")),
+            k.opacity(1),
+            k.anchor("center"),
+            k.pos(0, index * spacing),
+        ])
+    );
+
+    // moves the selection by one entry, skips disabled entries and wraps around at the top and bottom
+    function move(direction: -1 | 1) {
+        for (let i = 0; i < entries.length; i++) {
+            menu.selected = (menu.selected + direction + entries.length) % entries.length;
+            if (!entries[menu.selected].isDisabled?.()) return;
+        }
+    }
+    if (entries[0]?.isDisabled?.()) move(1);
+
+    menu.onUpdate(() => {
+        // the input is read even while inactive, otherwise a button held when the menu becomes active again counts as pressed
+        input.update();
+
+        labels.forEach((label, index) => {
+            const entry = entries[index];
+            const text = typeof entry.label === "function" ? entry.label() : entry.label;
+            label.text = index === menu.selected ? `> ${text} <` : text;
+            label.opacity = entry.isDisabled?.() ? 0.4 : 1;
+        });
+
+        if (!menu.isActive || entries.length === 0) return;
+
+        if (input.isPressed("up")) move(-1);
+        if (input.isPressed("swallow")) move(1);
+
+        const entry = entries[menu.selected];
+        if (input.isPressed("moveLeft")) entry.onChange?.(-1);
+        if (input.isPressed("moveRight")) entry.onChange?.(1);
+        if (input.isPressed("jump")) entry.onSelect?.();
+    });
+
+    return menu;
+}
\ No newline at end of file
@@ -0,0 +1,104 @@
+// pause overlay for the level scenes, opened and closed with the pause action
+// no time passes while paused (k.dt() is 0), which freezes physics, enemy state machines, k.wait()/k.loop() timers and tweens
+
+import { KaboomCtx } from "kaboom";
+import { setVolume } from "./audio";
+import { makeMenu } from "./menu";
+import { replayState } from "./replay";
+import { save } from "./state";
+
+type PauseState = {
+    isPaused: boolean;
+    timeScale: number; // time scale from before pausing, restored when resuming so that the debug slow motion keeps working
+};
+
+const pauseState: PauseState = {
+    isPaused: false,
+    timeScale: 1,
+};
+
+export function isGamePaused() {
+    return pauseState.isPaused;
+}
+
+// the pause action only opens the menu outside of recordings and replays, the headless simulation pauses directly
+export function pauseGame(k: KaboomCtx) {
+    if (pauseState.isPaused) return;
+    pauseState.isPaused = true;
+    pauseState.timeScale = k.debug.timeScale;
+    k.debug.timeScale = 0;
+}
+
+// also call before leaving the scene from the pause menu, the time scale is global and would stay at 0 otherwise
+export function resumeGame(k: KaboomCtx) {
+    if (!pauseState.isPaused) return;
+    pauseState.isPaused = false;
+    k.debug.timeScale = pauseState.timeScale;
+}
+
+// adds the (hidden) pause overlay to the current level scene, call after the players so that it is drawn on top of them
+export function makePauseMenu(k: KaboomCtx, levelId: string) {
+    resumeGame(k); // in case the previous scene was left while paused
+
+    const overlay = k.add([
+        k.rect(k.width(), k.height()),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.opacity(0.6),
+        k.fixed(),
+        k.z(110), // above the HUD
+    ]);
+    overlay.add([
+        k.text("PAUSED", { size: 64 }),
+        k.color(k.Color.fromHex("#f7d7db")),
+        k.anchor("center"),
+        k.pos(k.center().x, k.center().y - 160),
+    ]);
+
+    const volumeLabel = (name: string, value: number) => `${name}: < ${Math.round(value * 100)}% >`;
+    const menu = makeMenu(
+        k,
+        [
+            { label: "Resume", onSelect: () => resumeGame(k) },
+            {
+                label: "Restart level",
+                onSelect: () => {
+                    resumeGame(k);
+                    k.go(levelId);
+                },
+            },
+            {
+                label: () => volumeLabel("Music volume", save.data.settings.musicVolume),
+                onChange: (direction) => setVolume(k, "musicVolume", save.data.settings.musicVolume + direction * 0.1),
+            },
+            {
+                label: () => volumeLabel("Sound volume", save.data.settings.sfxVolume),
+                onChange: (direction) => setVolume(k, "sfxVolume", save.data.settings.sfxVolume + direction * 0.1),
+            },
+            {
+                label: "Quit to title",
+                onSelect: () => {
+                    resumeGame(k);
+                    k.go("title");
+                },
+            },
+        ],
+        { x: k.center().x, y: k.center().y - 40, color: "#f7d7db", z: 111 }
+    );
+
+    // runs after the menu handled its entries (events run in the order they were added),
+    // so a single press of the pause action either opens or closes the menu, never both
+    menu.onUpdate(() => {
+        // recordings and replays need every frame to take time, see replay.ts
+        if (replayState.mode !== "play") return;
+        if (menu.input.isPressed("pause")) {
+            if (pauseState.isPaused) resumeGame(k);
+            else pauseGame(k);
+        }
+        overlay.hidden = !pauseState.isPaused;
+        menu.hidden = !pauseState.isPaused;
+        menu.isActive = pauseState.isPaused;
+    });
+    overlay.hidden = true;
+    menu.hidden = true;
+    menu.isActive = false;
+}
\ No newline at end of file
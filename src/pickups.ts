@@ -0,0 +1,112 @@
+// pickup registry: every item that can be placed in the "pickups" layer in Tiled is defined here
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { abilities } from "./abilities";
+import { playSound } from "./audio";
+import { scale } from "./constants";
+import type { PlayerGameObj } from "./entities";
+import { addLife, addScore, collectPickup, getLevelPickups } from "./state";
+
+// pickup placed in Tiled, position is in map pixels (before scaling)
+export type PickupPoint = {
+    id: number; // Tiled object id, used to remember which pickups were collected
+    type: string; // key in the pickup registry (name of the object in Tiled)
+    x: number;
+    y: number;
+};
+
+// describes a pickup type, the key in the registry is the object name used in Tiled
+type PickupDefinition = {
+    anim: string; // animation from the "assets" sprite
+    color: string; // hex value used to tint the sprite
+    size: number; // sprite scale relative to the player
+    onCollect: (k: KaboomCtx, player: PlayerGameObj) => void;
+};
+
+const invincibilityTime = 8; // seconds the invincibility candy lasts
+
+// makes the player defeat enemies on contact and ignore damage for a while (see makePlayer())
+function makeInvincible(k: KaboomCtx, player: PlayerGameObj) {
+    player.invincibleTime = invincibilityTime; // picking up another candy restarts the timer
+    if (player.isInvincible) return;
+    player.isInvincible = true;
+
+    // cycle through colors while invincible, restores the ability tint afterwards
+    const colors = ["#ff6a2b", "#ffd35c", "#7ed957", "#5ce1e6", "#b69cff"].map((hex) => k.Color.fromHex(hex));
+    let elapsed = 0;
+    const effect = player.onUpdate(() => {
+        elapsed += k.dt();
+        player.invincibleTime -= k.dt();
+        player.color = colors[Math.floor(elapsed * 10) % colors.length];
+        if (player.invincibleTime <= 0) {
+            effect.cancel();
+            player.isInvincible = false;
+            player.color = player.ability ? k.Color.fromHex(abilities[player.ability].color) : k.Color.WHITE;
+        }
+    });
+}
+
+// add new pickups here and place point objects with the same name in the "pickups" layer in Tiled
+export const pickupRegistry: Record<string, PickupDefinition> = {
+    food: {
+        anim: "kirbFull",
+        color: "#ff8c69",
+        size: 0.75,
+        onCollect: (_k, player) => player.heal(1), // never goes above the max health
+    },
+    oneUp: {
+        anim: "kirbIdle",
+        color: "#7ed957",
+        size: 0.75,
+        onCollect: () => addLife(),
+    },
+    scoreStar: {
+        anim: "shootingStar",
+        color: "#ffd35c",
+        size: 1,
+        onCollect: () => addScore(100),
+    },
+    candy: {
+        anim: "shootingStar",
+        color: "#b69cff",
+        size: 1.25,
+        onCollect: makeInvincible,
+    },
+};
+
+// adds the pickups of the level that were not collected yet during this run
+export function spawnPickups(k: KaboomCtx, levelId: string, pickups: PickupPoint[]) {
+    const { collected } = getLevelPickups(levelId, pickups.length);
+
+    for (const point of pickups) {
+        if (collected.includes(point.id)) continue;
+        const definition = pickupRegistry[point.type];
+
+        const pickup = k.add([
+            k.sprite("assets", { anim: definition.anim }),
+            k.color(k.Color.fromHex(definition.color)),
+            k.anchor("center"),
+            k.scale(scale * definition.size),
+            k.pos(point.x * scale, point.y * scale),
+            k.area({ shape: new k.Rect(k.vec2(-5), 10, 10) }),
+            { pickupId: point.id, pickupType: point.type, levelId },
+            "pickup", // tag
+        ]);
+
+        // float up and down, uses k.dt() instead of k.time() so that replays line up
+        const baseY = pickup.pos.y;
+        let elapsed = point.x; // pickups next to each other float out of sync
+        pickup.onUpdate(() => {
+            elapsed += k.dt();
+            pickup.pos.y = baseY + Math.sin(elapsed * 4) * 6;
+        });
+    }
+}
+
+// applies the effect of a pickup touched by a player and removes it for the rest of the run
+export function usePickup(k: KaboomCtx, player: PlayerGameObj, pickup: GameObj) {
+    pickupRegistry[pickup.pickupType].onCollect(k, player);
+    playSound(k, "pickup");
+    collectPickup(pickup.levelId, pickup.pickupId);
+    k.destroy(pickup);
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+// deterministic input recording and replay, used to reproduce bugs frame by frame
+// open the game with "?record" to record every level attempt (F9 downloads the current one),
+// and with "?replay=<path to recording json>" to play a recording back
+
+import { KaboomCtx } from "kaboom";
+
+// one frame of a recording
+type RecordedFrame = {
+    dt: number; // frame time in seconds, replayed exactly so that timers and physics line up
+    actions: number[]; // action state per player, encoded with encodeActions() in input.ts
+};
+
+export type Recording = {
+    version: 1;
+    levelId: string;
+    seed: number; // seed for Kaboom's random number generator (k.rand(), k.choose() etc.)
+    playerCount: number;
+    frames: RecordedFrame[];
+};
+
+type ReplayState = {
+    mode: "play" | "record" | "replay";
+    recording: Recording | null; // recording being written or played back
+    frame: number; // index of the current frame in the recording
+};
+
+export const replayState: ReplayState = {
+    mode: "play",
+    recording: null,
+    frame: -1,
+};
+
+// reads the mode from the page url, returns the recording to play back if there is one
+export async function initReplay(): Promise<Recording | null> {
+    const params = new URLSearchParams(window.location.search);
+    const replayPath = params.get("replay");
+
+    if (replayPath) {
+        const response = await fetch(replayPath);
+        if (!response.ok) {
+            throw new Error(`Could not load recording "${replayPath}" (${response.status} ${response.statusText})`);
+        }
+        const recording: Recording = await response.json();
+        if (recording.version !== 1) {
+            throw new Error(`Unsupported recording version ${recording.version} in "${replayPath}"`);
+        }
+        replayState.mode = "replay";
+        replayState.recording = recording;
+        return recording;
+    }
+
+    if (params.has("record")) {
+        replayState.mode = "record";
+    }
+    return null;
+}
+
+// call at the very start of a level scene, before any game objects are added
+// seeds the random number generator and adds the clock that records or replays the frame times
+export function startLevelClock(k: KaboomCtx, levelId: string, playerCount: number) {
+    // a recording covers a single attempt of a level, so a replay ends when the level is left or restarted
+    if (replayState.mode === "replay" && replayState.frame >= 0) {
+        endReplay(k);
+        return;
+    }
+    replayState.frame = -1;
+
+    if (replayState.mode === "play") {
+        k.randSeed(Date.now());
+        return;
+    }
+
+    if (replayState.mode === "record") {
+        replayState.recording = { version: 1, levelId, seed: Date.now(), playerCount, frames: [] };
+    }
+
+    const recording = replayState.recording!;
+    k.randSeed(recording.seed);
+
+    // lowest z --> updated before every other game object, timers and k.onUpdate() events of the frame
+    const clock = k.add([k.z(-Infinity), "replayClock"]);
+
+    clock.onUpdate(() => {
+        replayState.frame++;
+
+        if (replayState.mode === "record") {
+            recording.frames.push({ dt: k.dt(), actions: [] }); // actions are filled in by the input of every player
+            return;
+        }
+
+        const frame = recording.frames[replayState.frame];
+        if (!frame) {
+            endReplay(k);
+            return;
+        }
+
+        // force this frame's dt to the recorded one, k.dt() returns the real frame time multiplied by the time scale
+        const realDt = k.debug.timeScale > 0 ? k.dt() / k.debug.timeScale : 0;
+        if (realDt > 0) k.debug.timeScale = frame.dt / realDt;
+    });
+
+    // download the current recording
+    if (replayState.mode === "record") {
+        k.onKeyPress("f9", () => downloadRecording(recording));
+    }
+}
+
+// freezes the game so the final state of the replay can be inspected
+function endReplay(k: KaboomCtx) {
+    k.debug.timeScale = 1;
+    k.debug.paused = true;
+    k.add([k.text("REPLAY FINISHED", { size: 32 }), k.pos(24, k.height() - 56), k.fixed(), k.z(100)]);
+}
+
+// stores the encoded action state of a player for the current frame
+export function recordActions(playerIndex: number, actions: number) {
+    if (replayState.mode !== "record" || !replayState.recording) return;
+    const frame = replayState.recording.frames[replayState.frame];
+    if (frame) frame.actions[playerIndex] = actions;
+}
+
+// encoded action state of a player for the current frame, null when not replaying
+export function getReplayedActions(playerIndex: number): number | null {
+    if (replayState.mode !== "replay" || !replayState.recording) return null;
+    return replayState.recording.frames[replayState.frame]?.actions[playerIndex] ?? 0;
+}
+
+function downloadRecording(recording: Recording) {
+    const blob = new Blob([JSON.stringify(recording)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `recording-${recording.levelId}-${recording.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+}
\ No newline at end of file
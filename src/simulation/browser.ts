@@ -0,0 +1,221 @@
+// just enough of a browser for Kaboom to run under Node: a canvas without rendering, silent audio, images that only
+// know their size and a fetch that reads from /public. Install before importing anything that creates the Kaboom context
+
+// reads a file from /public, path is relative to it (e.g. "level-1.json")
+export type FileReader = (path: string) => Promise<Uint8Array>;
+
+// calling, constructing or reading any property of a stub gives a stub again
+interface Stub {
+    (...args: unknown[]): Stub;
+    new (...args: unknown[]): Stub;
+    [property: string]: Stub;
+}
+
+// object where every property is a function doing nothing, used for WebGL and the audio nodes
+// the properties of base are kept, everything else returns the same stub again
+function createStub(base: Record<string, unknown> = {}): Stub {
+    const stub = new Proxy(function () {}, {
+        get: (_, property) => {
+            if (property in base) return base[property as string];
+            if (property === "then") return undefined; // not a promise
+            if (property === Symbol.toPrimitive) return () => 0;
+            return stub;
+        },
+        set: (_, property, value) => {
+            base[property as string] = value;
+            return true;
+        },
+        apply: () => stub,
+        construct: () => stub,
+    }) as unknown as Stub;
+    return stub;
+}
+
+// image size is read from the png header, the pixels are never needed since nothing is drawn
+function getPngSize(bytes: Uint8Array) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+class HeadlessImageData {
+    data: Uint8ClampedArray;
+    constructor(public width: number, public height: number) {
+        this.data = new Uint8ClampedArray(width * height * 4);
+    }
+}
+
+function createContext2d(canvas: { width: number; height: number }) {
+    return createStub({
+        canvas,
+        measureText: (text: string) => ({ width: text.length * 8 }),
+        getImageData: (_x: number, _y: number, width: number, height: number) => new HeadlessImageData(width, height),
+    });
+}
+
+function createCanvas(width: number, height: number) {
+    const canvas = {
+        width,
+        height,
+        style: {},
+        offsetWidth: width,
+        offsetHeight: height,
+        parentElement: { offsetWidth: width, offsetHeight: height },
+        addEventListener: () => {},
+        removeEventListener: () => {},
+        focus: () => {},
+        getBoundingClientRect: () => ({ x: 0, y: 0, left: 0, top: 0, width, height }),
+        getContext: (type: string) => {
+            if (type === "2d") return createContext2d(canvas);
+            return createStub({
+                canvas,
+                get drawingBufferWidth(): number {
+                    return canvas.width;
+                },
+                get drawingBufferHeight(): number {
+                    return canvas.height;
+                },
+            });
+        },
+    };
+    return canvas;
+}
+
+class HeadlessAudioContext {
+    currentTime = 0;
+    state = "running";
+    destination = createStub();
+    createGain = () => createStub({ gain: createStub({ value: 1 }) });
+    createBufferSource = () => createStub({ playbackRate: createStub({ value: 1 }), detune: createStub({ value: 0 }) });
+    createBuffer = () => createStub({ duration: 0 });
+    // Kaboom passes callbacks instead of waiting for the promise
+    decodeAudioData = (_data: ArrayBuffer, onDecoded?: (buffer: unknown) => void) => {
+        const buffer = createStub({ duration: 1 });
+        onDecoded?.(buffer);
+        return Promise.resolve(buffer);
+    };
+    suspend = () => Promise.resolve();
+    resume = () => Promise.resolve();
+}
+
+// images only know their size, see installHeadlessBrowser()
+type HeadlessImage = {
+    width: number;
+    height: number;
+    crossOrigin: string;
+    onload: (() => void) | null;
+    onerror: (() => void) | null;
+    src: string;
+};
+
+type EventTargetShim = {
+    addEventListener: () => void;
+    removeEventListener: () => void;
+};
+
+// browser globals replaced by installHeadlessBrowser(), typed as the shims instead of the DOM types they stand in for
+type HeadlessGlobals = EventTargetShim & {
+    requestAnimationFrame: (callback: (time: number) => void) => number;
+    cancelAnimationFrame: () => void;
+    window: HeadlessGlobals;
+    location: { search: string; href: string };
+    devicePixelRatio: number;
+    innerWidth: number;
+    innerHeight: number;
+    document: EventTargetShim & Record<string, unknown>;
+    ResizeObserver: new () => { observe(): void; disconnect(): void };
+    AudioContext: typeof HeadlessAudioContext;
+    ImageData: typeof HeadlessImageData;
+    Image: new () => HeadlessImage;
+    fetch: (url: string) => Promise<Response>;
+    localStorage: {
+        getItem: (key: string) => string | null;
+        setItem: (key: string, value: string) => void;
+        removeItem: (key: string) => void;
+    };
+};
+
+const frameTime = 1000 / 60; // milliseconds, the simulation always runs at a fixed 60 fps
+
+// Kaboom schedules its game loop with requestAnimationFrame, the loop only continues when stepFrame() is called
+const loopState = {
+    nextFrame: null as ((time: number) => void) | null,
+    time: 0,
+};
+
+// runs a single frame of Kaboom's game loop
+export function stepFrame() {
+    if (!loopState.nextFrame) throw new Error("The game loop is not running, was installHeadlessBrowser() called first?");
+    loopState.time += frameTime;
+    loopState.nextFrame(loopState.time);
+}
+
+// replaces the browser globals Kaboom uses, width and height are the size of the canvas in pixels
+export function installHeadlessBrowser(readFile: FileReader, width = 1024, height = 576) {
+    const global = globalThis as unknown as HeadlessGlobals;
+    const listeners: EventTargetShim = { addEventListener: () => {}, removeEventListener: () => {} };
+
+    global.requestAnimationFrame = (callback: (time: number) => void) => {
+        loopState.nextFrame = callback;
+        return 1;
+    };
+    global.cancelAnimationFrame = () => (loopState.nextFrame = null);
+
+    global.window = global;
+    Object.assign(global, listeners);
+    global.location = { search: "", href: "http://localhost/" };
+    global.devicePixelRatio = 1;
+    global.innerWidth = width;
+    global.innerHeight = height;
+    Object.defineProperty(global, "navigator", { value: { getGamepads: () => [], maxTouchPoints: 0 }, configurable: true });
+    global.document = {
+        ...listeners,
+        visibilityState: "visible",
+        body: { style: {}, appendChild: () => {} },
+        documentElement: { style: {} },
+        fonts: { check: () => true, add: () => {} }, // the game only uses the monospace font of the system
+        createElement: (tag: string) => (tag === "canvas" ? createCanvas(width, height) : { style: {}, click: () => {} }),
+    };
+    global.ResizeObserver = class {
+        observe() {}
+        disconnect() {}
+    };
+    global.AudioContext = HeadlessAudioContext;
+    global.ImageData = HeadlessImageData;
+
+    // images from files or data urls (Kaboom's built-in font and sprites) only report their size after loading
+    const readImage = async (url: string) => {
+        if (url.startsWith("data:")) return Uint8Array.from(atob(url.split(",")[1]), (char) => char.charCodeAt(0));
+        return readFile(url.replace(/^\.?\//, ""));
+    };
+    global.Image = class implements HeadlessImage {
+        width = 0;
+        height = 0;
+        crossOrigin = "";
+        onload: (() => void) | null = null;
+        onerror: (() => void) | null = null;
+        set src(url: string) {
+            readImage(url)
+                .then((bytes) => {
+                    Object.assign(this, getPngSize(bytes));
+                    this.onload?.();
+                })
+                .catch(() => this.onerror?.());
+        }
+    };
+
+    // relative urls are files in /public
+    global.fetch = async (url: string) => {
+        try {
+            return new Response(await readFile(url.replace(/^\.?\//, "")));
+        } catch {
+            return new Response(null, { status: 404, statusText: "Not Found" });
+        }
+    };
+
+    const storage = new Map<string, string>();
+    global.localStorage = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => void storage.set(key, value),
+        removeItem: (key: string) => void storage.delete(key),
+    };
+}
\ No newline at end of file
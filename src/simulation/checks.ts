@@ -0,0 +1,26 @@
+// minimal test runner for "npm test" (scripts/simulate.mjs): a check is a named function that throws when it fails
+
+export type Check = {
+    name: string;
+    run: () => void | Promise<void>;
+};
+
+export function assert(condition: unknown, message: string): asserts condition {
+    if (!condition) throw new Error(message);
+}
+
+// runs every check and prints the results, returns the number of failed checks
+export async function runChecks(checks: Check[]) {
+    let failed = 0;
+    for (const check of checks) {
+        try {
+            await check.run();
+            console.log(`ok    ${check.name}`);
+        } catch (error) {
+            failed++;
+            console.log(`FAIL  ${check.name}\n      ${error instanceof Error ? error.message.replace(/\n/g, "\n      ") : error}`);
+        }
+    }
+    console.log(`\n${checks.length - failed} passed, ${failed} failed`);
+    return failed;
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+// runs level scenes headlessly with a fixed timestep and scripted input, used by the scenarios in scenarios.ts
+// the script goes through the replay system (replay.ts): every step writes a frame into a recording that the game
+// plays back, so the players read their input exactly like during a replay
+
+import { scale } from "../constants";
+import type { PlayerGameObj } from "../entities";
+import { ActionState, decodeActions, encodeActions, InputAction } from "../input";
+import { k } from "../kaboomCtx";
+import { gameReady } from "../main";
+import { Recording, replayState } from "../replay";
+import { resetRun, runState } from "../state";
+import { stepFrame } from "./browser";
+
+const frameDt = 1 / 60; // seconds per frame, matches the game loop of the headless browser
+
+// Kaboom has no way to ask for the current scene, so scene changes are tracked here
+let sceneName = "";
+const go = k.go;
+k.go = (name, ...args) => {
+    sceneName = name;
+    go(name, ...args);
+};
+
+// runs a frame and lets pending promises settle before the next one, like the browser does between animation frames
+// (async state machine handlers continue after "await k.wait()" in a promise callback)
+async function runFrame() {
+    stepFrame();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// waits for the files of every asset, they are read between frames
+async function waitForAssets() {
+    await gameReady;
+    while (k.loadProgress() < 1) await runFrame();
+    await runFrame(); // Kaboom starts the first scene on the frame after loading
+}
+
+// starts a new attempt of a level with a fresh run, the simulation ends when the level is left or restarted
+export async function startSimulation(levelId: string, playerCount = 1) {
+    return startRecording({ version: 1, levelId, seed: 1, playerCount, frames: [] });
+}
+
+// plays back every frame of a recording (downloaded with F9 in the game, see replay.ts) and returns the simulation
+// at the end of it, further steps continue the attempt with scripted input
+export async function replayRecording(recording: Recording) {
+    const simulation = await startRecording({ ...recording, frames: [...recording.frames] });
+    for (let i = 0; i < recording.frames.length; i++) await runFrame();
+    return simulation;
+}
+
+// plays the level of the recording, frames that are in the recording already are replayed before the scripted ones
+async function startRecording(recording: Recording) {
+    await waitForAssets();
+
+    resetRun();
+    runState.playerCount = recording.playerCount;
+
+    // the clock of the previous level would end the new recording right away
+    k.destroyAll("replayClock");
+    replayState.mode = "replay";
+    replayState.recording = recording;
+    replayState.frame = -1;
+    k.debug.paused = false;
+    k.debug.timeScale = 1;
+
+    k.go(recording.levelId);
+    await runFrame(); // the scene is built at the end of this frame
+
+    return {
+        k,
+
+        get players() {
+            return k.get("player") as PlayerGameObj[];
+        },
+
+        get sceneName() {
+            return sceneName;
+        },
+
+        // runs the passed number of frames while player 1 holds the actions (the other players hold nothing)
+        async step(frames: number, actions: InputAction[] = []) {
+            const state: ActionState = decodeActions(0);
+            for (const action of actions) state[action] = true;
+            for (let i = 0; i < frames; i++) {
+                recording.frames.push({ dt: frameDt, actions: [encodeActions(state)] });
+                await runFrame();
+            }
+        },
+
+        // moves a player to a position in map pixels (like a spawn point) and stops its movement
+        teleport(player: PlayerGameObj, x: number, y: number) {
+            player.pos = k.vec2(x * scale, y * scale);
+            player.vel = k.vec2(0);
+        },
+    };
+}
+
+export type Simulation = Awaited<ReturnType<typeof startSimulation>>;
\ No newline at end of file
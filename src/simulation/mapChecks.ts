@@ -0,0 +1,63 @@
+// checks the maps in public/ with the validation the game runs before building a level (validateMap() in tiled.ts),
+// so a broken export from Tiled fails "npm test" instead of the level
+
+import { tileSize } from "../constants";
+import { MapValidationError, validateMap } from "../tiled";
+import { getMapObjectNames } from "../utils";
+import { assert, Check } from "./checks";
+
+// smallest map the validation accepts, data --> global tile ids (GIDs) of its single tile layer
+function makeTestMap(data: number[]) {
+    return {
+        width: data.length,
+        height: 1,
+        tilewidth: tileSize,
+        tileheight: tileSize,
+        tilesets: [{ firstgid: 1, name: "test", image: "test.png", columns: 2, tilecount: 4, tilewidth: tileSize, tileheight: tileSize }],
+        layers: [
+            { type: "tilelayer", name: "ground", width: data.length, height: 1, data },
+            { type: "objectgroup", name: "spawnpoints", objects: [{ id: 1, name: "player", x: 0, y: 0, width: 0, height: 0 }] },
+            { type: "objectgroup", name: "colliders", objects: [{ id: 2, name: "exit", x: 0, y: 0, width: 16, height: 16 }] },
+        ],
+    };
+}
+
+// problems listed by the validation, none when the map is valid
+function getProblems(mapData: unknown) {
+    try {
+        validateMap(mapData, "test", getMapObjectNames());
+        return [];
+    } catch (error) {
+        if (error instanceof MapValidationError) return error.problems;
+        throw error;
+    }
+}
+
+// fileNames --> json files in public/, listed by scripts/simulate.mjs
+export function createMapChecks(fileNames: string[]): Check[] {
+    const mapFileChecks = fileNames.map((fileName) => ({
+        name: `map ${fileName} is valid`,
+        run: async () => {
+            const response = await fetch(`./${fileName}`);
+            validateMap(await response.json(), fileName, getMapObjectNames()); // the error lists every problem
+        },
+    }));
+
+    return [
+        ...mapFileChecks,
+        {
+            name: "tiles within the tilecount of their tileset are accepted, flipped ones too",
+            run: () => {
+                const problems = getProblems(makeTestMap([0, 1, 4, 0x80000004])); // 0x80000000 --> flipped horizontally
+                assert(problems.length === 0, `valid map was rejected: ${problems.join(", ")}`);
+            },
+        },
+        {
+            name: "tiles past the tilecount of their tileset are rejected",
+            run: () => {
+                const problems = getProblems(makeTestMap([1, 5]));
+                assert(problems.some((problem) => problem.includes("GIDs 5")), "tile 5 of a tileset with 4 tiles was accepted");
+            },
+        },
+    ];
+}
\ No newline at end of file
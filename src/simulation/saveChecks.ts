@@ -0,0 +1,107 @@
+// checks of the save manager (state.ts) against in-memory storage: loading, migrating and resetting save data
+
+import { createMemoryStorage, createSaveManager, SaveStorage, saveVersion } from "../state";
+import { assert, Check } from "./checks";
+
+// storage that starts with a raw save, whatever key it is read with
+function storageWith(raw: string): SaveStorage {
+    const storage = createMemoryStorage();
+    return { ...storage, getItem: (key) => storage.getItem(key) ?? raw };
+}
+
+// a new save starts without progress and with the default settings
+function assertDefaults(data: ReturnType<typeof createSaveManager>["data"]) {
+    assert(data.version === saveVersion, `version is ${data.version} instead of ${saveVersion}`);
+    assert(data.unlockedLevels.length === 0, "levels are unlocked");
+    assert(Object.keys(data.bestScores).length === 0 && Object.keys(data.timeAttack).length === 0, "save has results");
+    assert(data.settings.masterVolume === 1 && data.settings.musicVolume === 0.7, "volumes are not the defaults");
+}
+
+export const saveChecks: Check[] = [
+    {
+        name: "empty storage loads a new save",
+        run: () => {
+            const save = createSaveManager(createMemoryStorage());
+            assertDefaults(save.data);
+            assert(!save.hasProgress(), "new save has progress");
+        },
+    },
+    {
+        name: "version 1 save is migrated to the current version",
+        run: () => {
+            const raw = {
+                version: 1,
+                unlockedLevels: ["level-1"],
+                bestScores: { "level-1": 500 },
+                bestTimes: { "level-1": 42 },
+                settings: { volume: 0.5, keyBindings: { jump: ["w"] } },
+            };
+            const { data } = createSaveManager(storageWith(JSON.stringify(raw)));
+            assert(data.version === saveVersion, `version is ${data.version} instead of ${saveVersion}`);
+            assert(data.unlockedLevels[0] === "level-1" && data.bestScores["level-1"] === 500, "progress was lost");
+            assert(data.settings.keyBindings.jump?.[0] === "w", "key bindings were lost");
+            assert(Object.keys(data.settings.gamepadBindings).length === 0, "gamepad bindings were not added"); // 1 --> 2
+            assert(data.settings.masterVolume === 0.5, `master volume is ${data.settings.masterVolume} instead of 0.5`); // 2 --> 3
+            assert(data.settings.musicVolume === 0.7 && data.settings.sfxVolume === 1, "channel volumes are not the defaults");
+            assert(!("volume" in data.settings), "old volume setting was kept");
+            assert(Object.keys(data.timeAttack).length === 0, "time attack bests were not added"); // 3 --> 4
+        },
+    },
+    {
+        name: "corrupted save loads a new save",
+        run: () => {
+            assertDefaults(createSaveManager(storageWith(`{"version": 4, "unlockedLevels": [`)).data);
+        },
+    },
+    {
+        name: "save of a newer version of the game loads a new save",
+        run: () => {
+            const raw = { version: saveVersion + 1, unlockedLevels: ["level-1"], settings: { masterVolume: 0.2 } };
+            assertDefaults(createSaveManager(storageWith(JSON.stringify(raw))).data);
+        },
+    },
+    {
+        name: "save with fields of the wrong type loads a new save",
+        run: () => {
+            const raw = { version: saveVersion, unlockedLevels: "level-1", settings: { masterVolume: "loud" } };
+            assertDefaults(createSaveManager(storageWith(JSON.stringify(raw))).data);
+        },
+    },
+    {
+        name: "progress is kept in memory when the storage is full",
+        run: () => {
+            const storage = createMemoryStorage();
+            const save = createSaveManager({
+                ...storage,
+                setItem: () => {
+                    throw new Error("QuotaExceededError");
+                },
+            });
+            save.unlockLevel("level-1");
+            save.saveTimeAttackRun("level-1", { time: 30, splits: [], ghost: [] });
+            assert(save.hasProgress() && save.data.timeAttack["level-1"]?.time === 30, "progress was lost");
+            save.resetProgress();
+            assert(!save.hasProgress(), "progress was not reset");
+        },
+    },
+    {
+        name: "resetting the progress keeps the settings and time attack bests",
+        run: () => {
+            const storage = createMemoryStorage();
+            const save = createSaveManager(storage);
+            save.unlockLevel("level-1");
+            save.completeLevel("level-1", "level-2", 500, 42);
+            save.saveTimeAttackRun("level-1", { time: 30, splits: [12], ghost: [] });
+            save.updateSettings({ masterVolume: 0.3 });
+
+            save.resetProgress();
+            assert(!save.hasProgress(), "levels are still unlocked");
+            assert(save.data.bestScores["level-1"] === undefined, "best score was kept");
+            assert(save.data.settings.masterVolume === 0.3, "settings were reset");
+            assert(save.data.timeAttack["level-1"]?.time === 30, "time attack best was reset");
+
+            const reloaded = createSaveManager(storage).data; // the reset is written right away
+            assert(reloaded.unlockedLevels.length === 0 && reloaded.timeAttack["level-1"]?.time === 30, "reset was not saved");
+        },
+    },
+];
\ No newline at end of file
@@ -0,0 +1,188 @@
+// scripted scenarios that play parts of a level without a browser, run them with "npm test" (scripts/simulate.mjs)
+// each scenario starts a fresh attempt of the level, steps a number of frames with scripted input and checks the result
+
+import { scale } from "../constants";
+import { defeatEnemy, enemyRegistry, spawnEnemies } from "../enemies";
+import { makeAbilityStar } from "../entities";
+import { k } from "../kaboomCtx";
+import { getNextLevelId, isLastLevel } from "../levels";
+import { pauseGame, resumeGame } from "../pause";
+import { Recording } from "../replay";
+import { runState, startingLives } from "../state";
+import { getTimeAttackResult, startTimeAttack, stopTimeAttack } from "../timeAttack";
+import { assert, Check } from "./checks";
+import { replayRecording, startSimulation } from "./harness";
+import firstStarRecording from "./recordings/level-1-first-star.json";
+
+// add new scenarios here, positions are map pixels from level-1.json
+export const scenarios: Check[] = [
+    {
+        name: "player spawned at the level-1 spawn falls onto a platform and is grounded",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const [player] = simulation.players;
+            await simulation.step(60);
+            assert(player.isGrounded(), "player is not grounded");
+            assert(player.curPlatform()?.is("platform"), "player is not standing on a platform");
+        },
+    },
+    {
+        name: "inhaling a guy sets isFull",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const [player] = simulation.players;
+            simulation.teleport(player, 116, 256); // the guy patrols to the right of this spot
+            await simulation.step(20);
+            await simulation.step(150, ["inhale"]);
+            assert(player.isFull, "player is not full");
+            assert(player.swallowed === "guy", `player swallowed "${player.swallowed}" instead of a guy`);
+        },
+    },
+    {
+        name: "spitting destroys a flame",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const { k } = simulation;
+            const [player] = simulation.players;
+            // only the flame in front of the player can be hit by the star
+            k.destroyAll("enemy");
+            spawnEnemies(k, { flame: [{ id: 1000, x: 160, y: 256, properties: {} }] });
+            const flame = k.get("enemy")[0];
+
+            simulation.teleport(player, 116, 256);
+            await simulation.step(20);
+            player.isFull = true; // as if an enemy had been inhaled
+            player.swallowed = "guy";
+            await simulation.step(1, ["inhale"]);
+            await simulation.step(30); // releasing the inhale action spits out the star
+            assert(!flame.exists(), "flame was not destroyed");
+            assert(!player.isFull, "player is still full");
+        },
+    },
+    {
+        name: "releasing inhale while paused stops inhaling and the fire ability after resuming",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const [player] = simulation.players;
+            await simulation.step(20);
+
+            await simulation.step(10, ["inhale"]);
+            assert(player.isInhaling, "player is not inhaling");
+            pauseGame(k);
+            await simulation.step(10); // released during the pause
+            resumeGame(k);
+            await simulation.step(5);
+            assert(!player.isInhaling, "player is still inhaling");
+
+            player.ability = "fire";
+            await simulation.step(10, ["inhale"]);
+            assert(player.get("fireBreath").length > 0, "player is not breathing fire");
+            pauseGame(k);
+            await simulation.step(10);
+            resumeGame(k);
+            await simulation.step(5);
+            assert(player.get("fireBreath").length === 0, "fire breath is still out");
+        },
+    },
+    {
+        name: "only enemies give points when they are defeated, dropped ability stars do not",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const { k } = simulation;
+            const [player] = simulation.players;
+            await simulation.step(20);
+
+            const score = runState.score;
+            defeatEnemy(k, makeAbilityStar(k, player, "flame")); // like a spit star or fire breath hitting it
+            assert(runState.score === score, `score went from ${score} to ${runState.score}`);
+
+            const flame = k.get("enemy").find((enemy) => enemy.enemyType === "flame");
+            assert(flame, "level has no flame");
+            defeatEnemy(k, flame);
+            const expected = score + enemyRegistry.flame.points;
+            assert(runState.score === expected, `score is ${runState.score} instead of ${expected}`);
+        },
+    },
+    {
+        name: "pickups collected after a checkpoint stay collected when dying",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const { k } = simulation;
+            const [player] = simulation.players;
+            simulation.teleport(player, 108, 238); // into the hitbox of the checkpoint at 112, 256, its anchor moves it up above the ground
+            await simulation.step(5);
+            simulation.teleport(player, 106, 226); // onto the score star at 120, 240, its anchor moves the hitbox up and to the left
+            await simulation.step(5);
+            const score = runState.score;
+            assert(score > 0, "star was not collected");
+
+            player.hurt(player.hp());
+            await simulation.step(180);
+            assert(runState.score === score, `score is ${runState.score} instead of ${score}`);
+            const star = k.get("pickup").find((pickup) => Math.abs(pickup.pos.x / scale - 120) < 1);
+            assert(!star, "star was respawned");
+            assert(k.get("enemy").some((enemy) => enemy.enemyType === "guy"), "guy was not respawned");
+        },
+    },
+    {
+        name: "patrolling guy turns around at the ledge instead of walking off",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const { k } = simulation;
+            const guy = k.get("enemy").find((enemy) => enemy.enemyType === "guy");
+            assert(guy, "level has no guy");
+            const startY = guy.pos.y;
+            await simulation.step(600); // the patrol distance reaches past the left edge of the platform
+            assert(guy.exists() && Math.abs(guy.pos.y - startY) < 4, "guy fell off the platform");
+        },
+    },
+    {
+        name: "touching the exit advances the level",
+        run: async () => {
+            const simulation = await startSimulation("level-1");
+            const [player] = simulation.players;
+            simulation.teleport(player, 274, 252); // exit trigger is at 272, 256
+            await simulation.step(10);
+            const expected = isLastLevel("level-1") ? "credits" : getNextLevelId("level-1");
+            assert(simulation.sceneName === expected, `scene is "${simulation.sceneName}" instead of "${expected}"`);
+        },
+    },
+    {
+        name: "dying in time attack respawns at the level start and keeps the timer running",
+        run: async () => {
+            startTimeAttack(k, "level-1"); // has to be active when the simulation builds the level scene
+            try {
+                const simulation = await startSimulation("level-1");
+                const [player] = simulation.players;
+                await simulation.step(30, ["moveRight"]); // the timer starts with the first input
+                player.hurt(player.hp());
+                await simulation.step(180);
+                const [revived] = simulation.players;
+                assert(simulation.sceneName === "level-1", `scene is "${simulation.sceneName}" instead of "level-1"`);
+                assert(runState.lives === startingLives, "a life was lost");
+                assert(Math.abs(revived.pos.x / scale - 16) < 1, `player is at x ${revived.pos.x / scale} instead of the spawn`);
+
+                simulation.teleport(revived, 274, 252); // exit trigger is at 272, 256
+                await simulation.step(10);
+                const time = getTimeAttackResult()?.run.time ?? 0;
+                assert(time > 3, `time is ${time.toFixed(2)}s, the timer was restarted`); // 30 + 180 frames
+            } finally {
+                stopTimeAttack();
+            }
+        },
+    },
+    {
+        // recorded attempt: hops over the first pillar, takes a hit from the flame on it and collects the star behind it
+        name: "replaying a recorded attempt ends at the same position and score",
+        run: async () => {
+            const simulation = await replayRecording(firstStarRecording as Recording);
+            const [player] = simulation.players;
+            assert(simulation.sceneName === "level-1", `scene is "${simulation.sceneName}" instead of "level-1"`);
+            assert(runState.score === 100, `score is ${runState.score} instead of 100`);
+            assert(player.hp() === 2, `player has ${player.hp()} health instead of 2`);
+            const x = player.pos.x / scale;
+            const y = player.pos.y / scale;
+            assert(Math.abs(x - 109) < 1 && Math.abs(y - 257) < 1, `player is at ${x.toFixed(1)}, ${y.toFixed(1)} instead of 109, 257`);
+        },
+    },
+];
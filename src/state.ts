@@ -1 +1,309 @@
-// holds general global state of the game, e.g. when to move on to the next scene
\ No newline at end of file
+// holds general global state of the game, e.g. when to move on to the next scene
+
+// state of the current run, lives in this module so it survives scene changes (k.go() rebuilds every game object)
+type RunState = {
+    lives: number; // shared between all players
+    score: number;
+    playerCount: number; // 1 or 2 (local multiplayer), chosen on the title screen
+    pickups: Record<string, LevelPickups>; // level id --> pickups of that level, see pickups.ts
+};
+
+// progress of the pickups in a single level
+type LevelPickups = {
+    total: number; // number of pickups placed in the level
+    collected: number[]; // Tiled object ids of the pickups collected during this run
+};
+
+export const startingLives = 3; // lives at the start of a new run
+
+export const runState: RunState = {
+    lives: startingLives,
+    score: 0,
+    playerCount: 1,
+    pickups: {},
+};
+
+// resets the run, used when starting over after a game over (the player count is kept)
+export function resetRun() {
+    runState.lives = startingLives;
+    runState.score = 0;
+    runState.pickups = {};
+}
+
+export function addScore(points: number) {
+    runState.score += points;
+}
+
+export function addLife() {
+    runState.lives += 1;
+}
+
+// pickup progress of a level, created on first access
+export function getLevelPickups(levelId: string, total: number): LevelPickups {
+    runState.pickups[levelId] ??= { total, collected: [] };
+    runState.pickups[levelId].total = total; // the map may have changed since the entry was created
+    return runState.pickups[levelId];
+}
+
+// marks a pickup as collected, collected pickups do not come back when the level restarts during the same run
+export function collectPickup(levelId: string, pickupId: number) {
+    const levelPickups = runState.pickups[levelId];
+    if (levelPickups && !levelPickups.collected.includes(pickupId)) {
+        levelPickups.collected.push(pickupId);
+    }
+}
+
+// removes a life from the player, returns true when there are no lives left (game over)
+export function loseLife() {
+    runState.lives = Math.max(0, runState.lives - 1);
+    return runState.lives === 0;
+}
+
+// --- save data, persisted between sessions ---
+
+// minimal key-value storage, matches the browser's localStorage so it can be passed in directly
+export interface SaveStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+// volumes go from 0 (muted) to 1 (full volume), music and sound effects are multiplied by the master volume
+export type Settings = {
+    masterVolume: number;
+    musicVolume: number;
+    sfxVolume: number;
+    keyBindings: Record<string, string[]>; // action --> keys, actions without an entry use the default keys
+    gamepadBindings: Record<string, string[]>; // action --> gamepad buttons, same rules as keyBindings
+};
+
+// position and animation of the player at a point of a time attack run, played back by the ghost (see timeAttack.ts)
+export type GhostSample = {
+    time: number; // seconds since the timer started
+    x: number; // world position of the player
+    y: number;
+    anim: string;
+    flipX: boolean;
+};
+
+// fastest time attack run of a level
+export type TimeAttackRun = {
+    time: number; // seconds from the first input to touching the exit
+    splits: number[]; // times at which the checkpoints were reached, in the order they were reached
+    ghost: GhostSample[];
+};
+
+export type SaveData = {
+    version: number;
+    unlockedLevels: string[]; // ids of levels that can be played, in the order they were unlocked
+    bestScores: Record<string, number>; // level id --> highest score earned in a single clear of the level
+    bestTimes: Record<string, number>; // level id --> fastest clear in seconds
+    timeAttack: Record<string, TimeAttackRun>; // level id --> personal best in the time attack mode
+    settings: Settings;
+};
+
+const saveKey = "kirby-clone-save";
+export const saveVersion = 4; // bump when SaveData changes and add a migration for the previous version
+
+// stored save data is untrusted (older versions, hand edits, partial writes), it is only typed once isSaveData() passed
+type StoredData = Record<string, unknown>;
+
+function isRecord(value: unknown): value is StoredData {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// nested objects that are missing or broken are replaced by an empty one, isSaveData() reports what is still missing
+function asRecord(value: unknown): StoredData {
+    return isRecord(value) ? value : {};
+}
+
+// upgrades save data from the version used as key to the next version, applied in order until saveVersion is reached
+const migrations: Record<number, (data: StoredData) => StoredData> = {
+    // 1 --> 2: gamepad buttons can be rebound
+    1: (data) => ({ ...data, settings: { ...asRecord(data.settings), gamepadBindings: {} } }),
+    // 2 --> 3: the single volume setting became the master volume, music and sound effects got their own channels
+    2: (data) => {
+        const { volume, ...settings } = asRecord(data.settings);
+        const masterVolume = typeof volume === "number" ? volume : 1;
+        return { ...data, settings: { ...settings, masterVolume, musicVolume: 0.7, sfxVolume: 1 } };
+    },
+    // 3 --> 4: time attack personal bests
+    3: (data) => ({ ...data, timeAttack: {} }),
+};
+
+function createDefaultSave(): SaveData {
+    return {
+        version: saveVersion,
+        unlockedLevels: [],
+        bestScores: {},
+        bestTimes: {},
+        timeAttack: {},
+        settings: { masterVolume: 1, musicVolume: 0.7, sfxVolume: 1, keyBindings: {}, gamepadBindings: {} },
+    };
+}
+
+function isNumberRecord(value: unknown) {
+    return isRecord(value) && Object.values(value).every((item) => typeof item === "number");
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isBindings(value: unknown) {
+    return isRecord(value) && Object.values(value).every(isStringArray);
+}
+
+function isGhostSample(value: unknown) {
+    return (
+        isRecord(value) &&
+        typeof value.time === "number" &&
+        typeof value.x === "number" &&
+        typeof value.y === "number" &&
+        typeof value.anim === "string" &&
+        typeof value.flipX === "boolean"
+    );
+}
+
+function isTimeAttackRun(value: unknown) {
+    return (
+        isRecord(value) &&
+        typeof value.time === "number" &&
+        Array.isArray(value.splits) &&
+        value.splits.every((split) => typeof split === "number") &&
+        Array.isArray(value.ghost) &&
+        value.ghost.every(isGhostSample)
+    );
+}
+
+// checks the shape of fully migrated save data
+function isSaveData(data: StoredData): data is SaveData {
+    const settings = asRecord(data.settings);
+    return (
+        data.version === saveVersion &&
+        isStringArray(data.unlockedLevels) &&
+        isNumberRecord(data.bestScores) &&
+        isNumberRecord(data.bestTimes) &&
+        isRecord(data.timeAttack) &&
+        Object.values(data.timeAttack).every(isTimeAttackRun) &&
+        typeof settings.masterVolume === "number" &&
+        typeof settings.musicVolume === "number" &&
+        typeof settings.sfxVolume === "number" &&
+        isBindings(settings.keyBindings) &&
+        isBindings(settings.gamepadBindings)
+    );
+}
+
+// brings stored data up to the current version, returns null if the data can not be used
+function migrateSave(stored: unknown): SaveData | null {
+    if (!isRecord(stored) || typeof stored.version !== "number") return null;
+    if (stored.version > saveVersion) return null; // saved by a newer version of the game
+
+    let data = stored;
+    let version = stored.version;
+    while (version < saveVersion) {
+        const migrate = migrations[version];
+        if (!migrate) return null; // no way to upgrade this version
+        version++;
+        data = { ...migrate(data), version };
+    }
+    // fill in fields that are missing in hand-edited or partially written saves
+    const defaults = createDefaultSave();
+    const merged = { ...defaults, ...data, settings: { ...defaults.settings, ...asRecord(data.settings) } };
+    return isSaveData(merged) ? merged : null;
+}
+
+// in-memory storage, used when localStorage is not available and as a fake in tests
+export function createMemoryStorage(): SaveStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, value),
+        removeItem: (key) => void items.delete(key),
+    };
+}
+
+// reads and writes save data through the passed storage, data is loaded once and written on every change
+export function createSaveManager(storage: SaveStorage) {
+    let data = load();
+
+    function load(): SaveData {
+        const raw = storage.getItem(saveKey);
+        if (raw === null) return createDefaultSave();
+        try {
+            const data = migrateSave(JSON.parse(raw));
+            if (!data) console.warn("Save data can not be used, starting with a new save");
+            return data ?? createDefaultSave();
+        } catch {
+            console.warn("Save data is corrupted, starting with a new save");
+            return createDefaultSave();
+        }
+    }
+
+    // setItem() throws when the storage is full (long time attack ghosts) or disabled (Safari private mode),
+    // the data is then only kept in memory until the page is closed
+    function write() {
+        try {
+            storage.setItem(saveKey, JSON.stringify(data));
+        } catch {
+            console.warn("Save data could not be stored, progress will only be kept until the page is closed");
+        }
+    }
+
+    return {
+        get data(): Readonly<SaveData> {
+            return data;
+        },
+
+        // true when there is progress to continue from
+        hasProgress() {
+            return data.unlockedLevels.length > 0;
+        },
+
+        unlockLevel(levelId: string) {
+            if (data.unlockedLevels.includes(levelId)) return;
+            data.unlockedLevels.push(levelId);
+            write();
+        },
+
+        // records the result of a cleared level and unlocks the next one
+        completeLevel(levelId: string, nextLevelId: string, score: number, time: number) {
+            data.bestScores[levelId] = Math.max(data.bestScores[levelId] ?? 0, score);
+            data.bestTimes[levelId] = Math.min(data.bestTimes[levelId] ?? Infinity, time);
+            if (!data.unlockedLevels.includes(nextLevelId)) data.unlockedLevels.push(nextLevelId);
+            write();
+        },
+
+        // keeps the run if it is faster than the personal best of the level, returns true for a new personal best
+        saveTimeAttackRun(levelId: string, run: TimeAttackRun) {
+            const best = data.timeAttack[levelId];
+            if (best && best.time <= run.time) return false;
+            data.timeAttack[levelId] = run;
+            write();
+            return true;
+        },
+
+        updateSettings(settings: Partial<Settings>) {
+            data.settings = { ...data.settings, ...settings };
+            write();
+        },
+
+        // clears progress but keeps the settings and time attack bests, used by "New game"
+        resetProgress() {
+            data = { ...createDefaultSave(), timeAttack: data.timeAttack, settings: data.settings };
+            write();
+        },
+    };
+}
+
+// localStorage throws in some browsers when storage is disabled, progress is then only kept until the page is closed
+function getDefaultStorage(): SaveStorage {
+    try {
+        if (typeof localStorage !== "undefined") return localStorage;
+    } catch {
+        console.warn("localStorage is not available, progress will not be saved");
+    }
+    return createMemoryStorage();
+}
+
+export const save = createSaveManager(getDefaultStorage());
\ No newline at end of file
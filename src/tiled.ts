@@ -0,0 +1,291 @@
+// types for the subset of the Tiled JSON map format used by the game, and validation of loaded map data
+// does not depend on Kaboom, so maps can also be checked outside of the browser
+
+import { tileSize } from "./constants";
+
+// custom property added to a map object in Tiled (Custom Properties panel)
+export type TiledProperty = {
+    name: string;
+    type: string;
+    value: string | number | boolean;
+};
+
+// rectangle or point placed in an object layer
+export type TiledObject = {
+    id: number;
+    name: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    point?: boolean;
+    polyline?: { x: number; y: number }[]; // points relative to x and y
+    polygon?: { x: number; y: number }[]; // same as polyline, but closed
+    visible: boolean;
+    properties?: TiledProperty[];
+};
+
+// grid of tile GIDs, stored row by row from the top left corner
+export type TiledTileLayer = {
+    type: "tilelayer";
+    id: number;
+    name: string;
+    width: number;
+    height: number;
+    data: number[];
+    opacity: number;
+    visible: boolean;
+    offsetx?: number;
+    offsety?: number;
+};
+
+// layer containing map objects, e.g. colliders or spawnpoints
+export type TiledObjectGroup = {
+    type: "objectgroup";
+    id: number;
+    name: string;
+    objects: TiledObject[];
+    opacity: number;
+    visible: boolean;
+};
+
+export type TiledLayer = TiledTileLayer | TiledObjectGroup;
+
+// tileset embedded in the map (external .tsx/.tsj tilesets are not supported)
+export type TiledTileset = {
+    firstgid: number;
+    name: string;
+    image: string;
+    columns: number;
+    tilecount: number;
+    tilewidth: number;
+    tileheight: number;
+};
+
+export type TiledMap = {
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    layers: TiledLayer[];
+    tilesets: TiledTileset[];
+};
+
+// thrown when a map does not match what the game expects, lists every problem that was found
+export class MapValidationError extends Error {
+    constructor(mapName: string, public problems: string[]) {
+        super(`Invalid map "${mapName}":\n${problems.map((problem) => ` - ${problem}`).join("\n")}`);
+        this.name = "MapValidationError";
+    }
+}
+
+// object layers the game knows how to handle
+const objectLayerNames = ["colliders", "spawnpoints", "camera", "pickups"];
+
+// names of the objects in the "camera" layer, see camera.ts
+const cameraObjectNames = ["bounds", "zone", "lock", "killplane"];
+
+// clears the flip flags Tiled stores in the highest 4 bits of a tile's global id (GID), see addTileLayer() in utils.ts
+const gidMask = 0x0fffffff;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+// Array.isArray() would type the items as any
+function isArray(value: unknown): value is unknown[] {
+    return Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === "number" && Number.isFinite(value);
+}
+
+// names and types are plain strings in Tiled, anything else is treated like an empty one
+function asString(value: unknown) {
+    return typeof value === "string" ? value : "";
+}
+
+// enough of an object to place it in the level, the remaining fields are checked in validateObjectGroup()
+function isTiledObject(value: unknown): value is TiledObject {
+    return isObject(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.width) && isNumber(value.height);
+}
+
+// part of a tileset that decides which GIDs belong to it, the other fields are checked in validateTileset()
+type TileRange = { firstgid: number; tilecount: number };
+
+function isTileRange(value: unknown): value is TileRange {
+    return isObject(value) && isNumber(value.firstgid) && isNumber(value.tilecount);
+}
+
+// checks that the value is a number that is zero or larger, reports a problem otherwise
+function checkSize(problems: string[], value: unknown, description: string) {
+    if (!isNumber(value) || value < 0) {
+        problems.push(`${description} must be a non-negative number (got ${JSON.stringify(value)})`);
+    }
+}
+
+function validateTileset(problems: string[], tileset: unknown, index: number) {
+    if (!isObject(tileset)) {
+        problems.push(`tileset #${index} is not an object`);
+        return;
+    }
+    if (typeof tileset.source === "string") {
+        problems.push(`tileset "${tileset.source}" is external, embed it in the map instead`);
+        return;
+    }
+    if (typeof tileset.name !== "string" || typeof tileset.image !== "string") {
+        problems.push(`tileset #${index} is missing a name or image`);
+    }
+    if (!isNumber(tileset.firstgid) || tileset.firstgid < 1) {
+        problems.push(`tileset "${tileset.name}" has an invalid firstgid`);
+    }
+    if (!isNumber(tileset.columns) || tileset.columns < 1 || !isNumber(tileset.tilecount) || tileset.tilecount < 1) {
+        problems.push(`tileset "${tileset.name}" must have at least one column and one tile`);
+    }
+    if (tileset.tilewidth !== tileSize || tileset.tileheight !== tileSize) {
+        problems.push(`tileset "${tileset.name}" uses ${tileset.tilewidth}x${tileset.tileheight} tiles, expected ${tileSize}x${tileSize}`);
+    }
+}
+
+function validateTileLayer(problems: string[], layer: Record<string, unknown>, tilesets: unknown[]) {
+    const { name, width, height, data } = layer;
+    checkSize(problems, width, `width of layer "${name}"`);
+    checkSize(problems, height, `height of layer "${name}"`);
+    if (typeof layer.encoding === "string" && layer.encoding !== "csv") {
+        problems.push(`layer "${name}" uses ${layer.encoding} encoding, save the map with CSV layer format`);
+        return;
+    }
+    if (!isArray(data) || !data.every(isNumber)) {
+        problems.push(`layer "${name}" has no tile data`);
+        return;
+    }
+    if (isNumber(width) && isNumber(height) && data.length !== width * height) {
+        problems.push(`layer "${name}" has ${data.length} tiles, expected ${width * height} (width * height)`);
+    }
+
+    // every tile has to belong to a tileset: the one with the highest firstgid that is still lower than or equal to the GID,
+    // and the GID has to be within the tilecount of that tileset
+    const ranges = tilesets.filter(isTileRange).sort((a, b) => b.firstgid - a.firstgid);
+    const unknownGids = new Set<number>();
+    for (const rawGid of data) {
+        const gid = rawGid & gidMask;
+        if (gid === 0) continue; // empty cell
+        const tileset = ranges.find((range) => range.firstgid <= gid);
+        if (!tileset || gid >= tileset.firstgid + tileset.tilecount) unknownGids.add(gid);
+    }
+    if (unknownGids.size > 0) {
+        problems.push(`layer "${name}" uses tiles that are not in any tileset (GIDs ${[...unknownGids].join(", ")})`);
+    }
+}
+
+// names the game code defines for objects in the map, the registries live in the Kaboom dependent modules
+export type MapObjectNames = {
+    spawns: string[]; // names allowed for objects in the "spawnpoints" layer
+    colliderTypes: string[]; // types (classes) allowed for objects in the "colliders" layer, objects without a type are plain platforms
+    pathColliderTypes: string[]; // collider types that need a polyline or polygon
+    pickups: string[]; // names allowed for objects in the "pickups" layer
+};
+
+function validateObjectGroup(problems: string[], layer: Record<string, unknown>, names: MapObjectNames) {
+    const layerName = asString(layer.name);
+    if (!objectLayerNames.includes(layerName)) {
+        problems.push(`unknown object layer "${layer.name}", expected one of: ${objectLayerNames.join(", ")}`);
+        return;
+    }
+    if (!isArray(layer.objects)) {
+        problems.push(`layer "${layerName}" has no objects`);
+        return;
+    }
+
+    for (const object of layer.objects) {
+        if (!isObject(object) || !isNumber(object.x) || !isNumber(object.y)) {
+            problems.push(`layer "${layerName}" contains an object without a position`);
+            continue;
+        }
+        const name = asString(object.name);
+        const type = asString(object.type);
+        const description = `object #${object.id} ("${name}") in layer "${layerName}"`;
+        checkSize(problems, object.width, `width of ${description}`);
+        checkSize(problems, object.height, `height of ${description}`);
+
+        if (layerName === "spawnpoints" && !names.spawns.includes(name)) {
+            problems.push(`unknown spawn name in ${description}, expected one of: ${names.spawns.join(", ")}`);
+        }
+        if (layerName === "colliders" && type && !names.colliderTypes.includes(type)) {
+            problems.push(`unknown collider type "${type}" of ${description}, expected one of: ${names.colliderTypes.join(", ")}`);
+        }
+        if (layerName === "pickups" && !names.pickups.includes(name)) {
+            problems.push(`unknown pickup name in ${description}, expected one of: ${names.pickups.join(", ")}`);
+        }
+        const path = object.polyline ?? object.polygon;
+        if (layerName === "colliders" && names.pathColliderTypes.includes(type) && !(isArray(path) && path.length >= 2)) {
+            problems.push(`${description} has type "${type}" and needs a polyline or polygon with at least two points`);
+        }
+        if (layerName === "camera" && !cameraObjectNames.includes(name)) {
+            problems.push(`unknown camera object ${description}, expected one of: ${cameraObjectNames.join(", ")}`);
+        }
+    }
+}
+
+// checks the parsed map json and returns it typed, throws a MapValidationError with all problems found otherwise
+// names --> spawn names and collider types the game knows about
+export function validateMap(mapData: unknown, mapName: string, names: MapObjectNames): TiledMap {
+    const problems: string[] = [];
+
+    if (!isObject(mapData) || !isArray(mapData.layers) || !isArray(mapData.tilesets)) {
+        throw new MapValidationError(mapName, ["not a Tiled map, expected an object with layers and tilesets"]);
+    }
+
+    // tiles are scaled with the global scale constant, other tile sizes would not line up with the game resolution
+    if (mapData.tilewidth !== tileSize || mapData.tileheight !== tileSize) {
+        problems.push(`tile size is ${mapData.tilewidth}x${mapData.tileheight}, expected ${tileSize}x${tileSize} to match the game scale`);
+    }
+    checkSize(problems, mapData.width, "map width");
+    checkSize(problems, mapData.height, "map height");
+
+    const layers = mapData.layers;
+    const tilesets = mapData.tilesets;
+    tilesets.forEach((tileset, index) => validateTileset(problems, tileset, index));
+
+    for (const layer of layers) {
+        if (!isObject(layer)) {
+            problems.push("map contains a layer that is not an object");
+            continue;
+        }
+        switch (layer.type) {
+            case "tilelayer":
+                validateTileLayer(problems, layer, tilesets);
+                break;
+            case "objectgroup":
+                validateObjectGroup(problems, layer, names);
+                break;
+            default:
+                problems.push(`layer "${layer.name}" has unsupported type "${layer.type}"`);
+                break;
+        }
+    }
+
+    // objects the game cannot run without
+    // objects that are not even placed correctly were reported by validateObjectGroup() and are left out here
+    const objectsIn = (layerName: string): TiledObject[] =>
+        layers.flatMap((layer) =>
+            isObject(layer) && layer.name === layerName && isArray(layer.objects) ? layer.objects.filter(isTiledObject) : []
+        );
+
+    if (!objectsIn("spawnpoints").some((object) => object.name === "player")) {
+        problems.push(`missing a "player" spawn point in the "spawnpoints" layer`);
+    }
+    if (!objectsIn("colliders").some((object) => object.name === "exit")) {
+        problems.push(`missing an "exit" collider in the "colliders" layer`);
+    }
+    if (objectsIn("camera").filter((object) => object.name === "bounds").length > 1) {
+        problems.push(`more than one "bounds" object in the "camera" layer`);
+    }
+
+    if (problems.length > 0) {
+        throw new MapValidationError(mapName, problems);
+    }
+    return mapData as TiledMap;
+}
\ No newline at end of file
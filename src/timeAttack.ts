@@ -0,0 +1,204 @@
+// time attack mode, started from the title screen: a single player races through an unlocked level against the clock
+// the timer starts with the first input and stops when touching the exit, checkpoints record splits, and the
+// personal best of the level is played back as a translucent ghost next to the player
+
+import { GameObj, KaboomCtx } from "kaboom";
+import { scale } from "./constants";
+import type { PlayerGameObj } from "./entities";
+import { inputActions, PlayerInput } from "./input";
+import { GhostSample, resetRun, runState, save, TimeAttackRun } from "./state";
+
+const ghostSampleInterval = 0.05; // seconds between two ghost samples, positions in between are interpolated
+const splitDisplayTime = 2; // seconds a split stays on screen after reaching a checkpoint
+
+// attempt at the level that is currently played, a new one starts every time the level scene is built
+type Attempt = {
+    time: number; // seconds since the first input
+    isRunning: boolean;
+    splits: number[];
+    ghost: GhostSample[]; // samples of the current attempt, becomes the ghost when it is the new personal best
+};
+
+// finished attempt shown on the results screen
+export type TimeAttackResult = {
+    levelId: string;
+    run: TimeAttackRun;
+    previousBest: TimeAttackRun | null; // personal best before this run, used for the split differences
+    isNewBest: boolean;
+};
+
+type TimeAttackState = {
+    isActive: boolean; // true while the level scenes are played in time attack mode
+    levelId: string;
+    attempt: Attempt | null;
+    result: TimeAttackResult | null; // latest finished attempt
+};
+
+const timeAttackState: TimeAttackState = {
+    isActive: false,
+    levelId: "",
+    attempt: null,
+    result: null,
+};
+
+export function isTimeAttackActive() {
+    return timeAttackState.isActive;
+}
+
+export function getTimeAttackResult() {
+    return timeAttackState.result;
+}
+
+// times are shown in seconds with hundredths, like the best times in the level select
+export function formatTime(seconds: number) {
+    return `${seconds.toFixed(2)}s`;
+}
+
+// difference to the personal best, negative --> faster
+export function formatTimeDifference(seconds: number) {
+    return `${seconds < 0 ? "-" : "+"}${Math.abs(seconds).toFixed(2)}s`;
+}
+
+// starts the time attack of a level, the ghost only follows a single player so local multiplayer is turned off
+export function startTimeAttack(k: KaboomCtx, levelId: string) {
+    timeAttackState.isActive = true;
+    timeAttackState.levelId = levelId;
+    runState.playerCount = 1;
+    k.go(levelId);
+}
+
+// back to the campaign, called by the title screen
+export function stopTimeAttack() {
+    timeAttackState.isActive = false;
+    timeAttackState.attempt = null;
+}
+
+// call at the start of the level scene, every attempt starts with the same lives, score and pickups
+export function resetTimeAttackAttempt() {
+    if (!timeAttackState.isActive) return;
+    resetRun();
+    timeAttackState.attempt = { time: 0, isRunning: false, splits: [], ghost: [] };
+}
+
+// adds the timer, splits and ghost to the current level scene, call after the players and checkpoints were added
+// input --> input of the player, the timer starts with the first action that is held down
+export function makeTimeAttack(k: KaboomCtx, player: PlayerGameObj, input: PlayerInput) {
+    const attempt = timeAttackState.attempt;
+    if (!timeAttackState.isActive || !attempt) return;
+    const best = save.data.timeAttack[timeAttackState.levelId] ?? null;
+
+    const moveGhost = best ? makeGhost(k, best.ghost) : null;
+
+    const display = k.add([
+        k.pos(k.center().x, 16),
+        k.fixed(),
+        k.z(100), // same layer as the HUD
+    ]);
+    const timer = display.add([
+        k.text("", { size: 40 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.anchor("top"),
+    ]);
+    display.add([
+        k.text(best ? `BEST ${formatTime(best.time)}` : "NO BEST YET", { size: 20 }),
+        k.color(k.Color.fromHex("#5c2a3a")),
+        k.anchor("top"),
+        k.pos(0, 48),
+    ]);
+    const split = display.add([
+        k.text("", { size: 28 }),
+        k.color(), // green when faster than the personal best, red when slower
+        k.anchor("top"),
+        k.pos(0, 76),
+        k.opacity(0),
+    ]);
+
+    const startActions = inputActions.filter((action) => action !== "pause"); // opening the pause menu does not count
+    let nextSampleTime = 0;
+    let splitTime = 0; // seconds the current split is still shown
+
+    // added after the players, so their input and position are already updated for this frame
+    display.onUpdate(() => {
+        if (!attempt.isRunning && attempt.time === 0 && startActions.some((action) => input.isDown(action))) {
+            attempt.isRunning = true;
+        }
+        if (attempt.isRunning) {
+            attempt.time += k.dt(); // stands still while the game is paused
+            while (nextSampleTime <= attempt.time) {
+                attempt.ghost.push(sampleGhost(player, nextSampleTime));
+                nextSampleTime += ghostSampleInterval;
+            }
+        }
+        moveGhost?.(attempt.time);
+
+        timer.text = formatTime(attempt.time);
+        splitTime = Math.max(0, splitTime - k.dt());
+        split.opacity = splitTime > 0 ? 1 : 0;
+    });
+
+    // a split is taken the first time each checkpoint is reached, see checkpoints.ts
+    k.get("checkpoint").forEach((checkpoint: GameObj) => {
+        let isReached = false;
+        checkpoint.onCollide("player", () => {
+            if (isReached || !attempt.isRunning) return;
+            isReached = true;
+            attempt.splits.push(attempt.time);
+
+            const bestSplit = best?.splits[attempt.splits.length - 1];
+            split.text = bestSplit === undefined ? formatTime(attempt.time) : formatTimeDifference(attempt.time - bestSplit);
+            split.color = k.Color.fromHex(bestSplit === undefined || attempt.time <= bestSplit ? "#2f9e44" : "#d6336c");
+            splitTime = splitDisplayTime;
+        });
+    });
+}
+
+// stops the timer and shows the results screen, called when the player touches the exit
+export function finishTimeAttack(k: KaboomCtx) {
+    const attempt = timeAttackState.attempt;
+    if (!attempt) return;
+    attempt.isRunning = false;
+
+    const levelId = timeAttackState.levelId;
+    const previousBest = save.data.timeAttack[levelId] ?? null;
+    const run: TimeAttackRun = { time: attempt.time, splits: attempt.splits, ghost: attempt.ghost };
+    const isNewBest = save.saveTimeAttackRun(levelId, run);
+    timeAttackState.result = { levelId, run, previousBest, isNewBest };
+    k.go("timeAttackResults");
+}
+
+// position and animation of the player, rounded to keep the save data small
+function sampleGhost(player: PlayerGameObj, time: number): GhostSample {
+    return {
+        time: Math.round(time * 1000) / 1000,
+        x: Math.round(player.pos.x * 10) / 10,
+        y: Math.round(player.pos.y * 10) / 10,
+        anim: player.curAnim() ?? "kirbIdle",
+        flipX: player.flipX,
+    };
+}
+
+// translucent copy of the player that replays the samples of the personal best, returns the function that moves it
+// to a time of the run
+function makeGhost(k: KaboomCtx, samples: GhostSample[]) {
+    const ghost = k.add([
+        k.sprite("assets", { anim: "kirbIdle" }),
+        k.pos(samples[0]?.x ?? 0, samples[0]?.y ?? 0),
+        k.scale(scale),
+        k.opacity(0.4),
+        "ghost", // tag
+    ]);
+    let sampleIndex = 0; // latest sample at or before the current time
+
+    return (time: number) => {
+        while (sampleIndex < samples.length - 1 && samples[sampleIndex + 1].time <= time) sampleIndex++;
+        const sample = samples[sampleIndex];
+        const next = samples[sampleIndex + 1];
+        if (!sample) return;
+
+        ghost.hidden = !next && time > sample.time + ghostSampleInterval; // the run reached the exit
+        const progress = next ? Math.min(1, (time - sample.time) / (next.time - sample.time)) : 0;
+        ghost.pos = k.vec2(sample.x, sample.y).lerp(k.vec2(next?.x ?? sample.x, next?.y ?? sample.y), progress);
+        ghost.flipX = sample.flipX;
+        if (ghost.curAnim() !== sample.anim) ghost.play(sample.anim);
+    };
+}
\ No newline at end of file
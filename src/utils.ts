@@ -1,56 +1,244 @@
 // map-related utility
 
-import { KaboomCtx } from 'kaboom';
-import { scale } from './constants';
+import { GameObj, KaboomCtx } from 'kaboom';
+import { bossRegistry } from './bosses';
+import { CameraData, CameraRegion } from './camera';
+import { ColliderObject, colliderRegistry, pathColliderTypes } from './colliders';
+import { scale, tileSize } from './constants';
+import { enemyRegistry } from './enemies';
+import { PickupPoint, pickupRegistry } from './pickups';
+import { MapObjectNames, TiledMap, TiledTileLayer, TiledTileset, validateMap } from './tiled';
+
+// location of a spawn point, with the custom properties set on the object in Tiled
+export type SpawnPoint = {
+    id?: number; // Tiled object id, missing for spawn points created in code (e.g. minions summoned by a boss)
+    x: number;
+    y: number;
+    properties: Record<string, string | number | boolean>;
+};
+
+// Tiled stores flip flags in the highest bits of a tile's global id (GID)
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+const ROTATED_HEXAGONAL_120_FLAG = 0x10000000; // unused for orthogonal maps, but still has to be cleared from the GID
+
+// loads the tileset images referenced by the map as sliced sprites, the sprite is named after the tileset
+function loadTilesets(k: KaboomCtx, tilesets: TiledTileset[]) {
+    for (const tileset of tilesets) {
+        if (k.getSprite(tileset.name)) continue; // already loaded by a previous map
+        k.loadSprite(tileset.name, `./${tileset.image}`, {
+            sliceX: tileset.columns, // number of tiles on X-axis
+            sliceY: Math.ceil(tileset.tilecount / tileset.columns), // number of tiles on Y-axis
+        });
+    }
+}
+
+// adds all tiles of a Tiled tile layer to the map, layers are drawn in the order they are added
+function addTileLayer(k: KaboomCtx, map: GameObj, layer: TiledTileLayer, mapData: TiledMap) {
+    if (!layer.visible) return; // hidden layers in Tiled should not be drawn in the game either
+
+    const { tilewidth, tileheight } = mapData;
+
+    // container for the tiles of this layer, offsets are set in Tiled as pixels
+    const tileLayer = map.add([
+        k.pos(layer.offsetx ?? 0, layer.offsety ?? 0),
+        layer.name, // tag, makes it possible to find a layer with k.get()
+    ]);
+
+    // layer data is a flat array of GIDs, row by row from the top left corner (0 --> empty tile)
+    layer.data.forEach((rawGid, index) => {
+        if (rawGid === 0) return;
+
+        // read flip flags and then clear them to get the actual GID (>>> 0 keeps the value unsigned)
+        const flippedHorizontally = (rawGid & FLIPPED_HORIZONTALLY_FLAG) !== 0;
+        const flippedVertically = (rawGid & FLIPPED_VERTICALLY_FLAG) !== 0;
+        const flippedDiagonally = (rawGid & FLIPPED_DIAGONALLY_FLAG) !== 0;
+        const gid = (rawGid & ~(FLIPPED_HORIZONTALLY_FLAG | FLIPPED_VERTICALLY_FLAG | FLIPPED_DIAGONALLY_FLAG | ROTATED_HEXAGONAL_120_FLAG)) >>> 0;
+
+        // the tile belongs to the tileset with the highest firstgid that is still lower than or equal to the GID
+        const tileset = mapData.tilesets
+            .filter((tileset) => tileset.firstgid <= gid)
+            .reduce((a, b) => (a.firstgid > b.firstgid ? a : b));
+
+        const column = index % layer.width;
+        const row = Math.floor(index / layer.width);
+
+        tileLayer.add([
+            k.sprite(tileset.name, {
+                frame: gid - tileset.firstgid, // index of the tile within the tileset
+                // a diagonal flip equals a 90 degree rotation with a vertical flip, which swaps how the other flags apply
+                flipX: flippedDiagonally ? flippedVertically : flippedHorizontally,
+                flipY: flippedDiagonally ? !flippedHorizontally : flippedVertically,
+            }),
+            // rotate around the center of the tile so that it stays within its own cell
+            k.anchor("center"),
+            k.pos(column * tilewidth + tilewidth / 2, row * tileheight + tileheight / 2),
+            k.rotate(flippedDiagonally ? 90 : 0),
+            k.opacity(layer.opacity),
+        ]);
+    });
+}
+
+// invisible area that makes players lose a life on contact, region is in map pixels
+function addKillPlane(k: KaboomCtx, map: GameObj, region: CameraRegion) {
+    map.add([
+        k.area({ shape: new k.Rect(k.vec2(0), region.width, region.height) }),
+        k.pos(region.x, region.y),
+        "killPlane", // tag
+    ]);
+}
+
+// names a map may use, valid spawn names are the player, checkpoints, every enemy and every boss in the registries
+// also used by the map checks of "npm test" (simulation/mapChecks.ts)
+export function getMapObjectNames(): MapObjectNames {
+    return {
+        spawns: ["player", "checkpoint", ...Object.keys(enemyRegistry), ...Object.keys(bossRegistry)],
+        colliderTypes: Object.keys(colliderRegistry),
+        pathColliderTypes,
+        pickups: Object.keys(pickupRegistry),
+    };
+}
 
 // name --> name of the map
 export async function makeMap(k: KaboomCtx, name: string) {
 
     // read the mapdata from associated json file
-    const mapData = await (await fetch(`./${name}.json`)).json();
+    const response = await fetch(`./${name}.json`, { cache: "no-cache" }); // always checks for a newer file, see the reload in debug.ts
+    if (!response.ok) {
+        throw new Error(`Could not load map "${name}" (${response.status} ${response.statusText})`);
+    }
+    // check the map before building anything from it, throws a readable error listing all problems
+    const mapData = validateMap(await response.json(), name, getMapObjectNames());
+
+    // tiles are drawn with sprites sliced from the tileset images
+    loadTilesets(k, mapData.tilesets);
+
+    // create a map object without adding it to the scene, the visuals are built from the tile layers
+    const map = k.make([k.scale(scale), k.pos(0)]);
+
+    // the camera shows the whole map unless the "camera" layer has its own bounds
+    const camera: CameraData = {
+        bounds: { x: 0, y: 0, width: mapData.width * mapData.tilewidth, height: mapData.height * mapData.tileheight },
+        zones: [],
+        locks: [],
+    };
+    let hasKillPlane = false;
 
-    // create a map object without adding it to the map
-    const map = k.make([k.sprite(name), k.scale(scale), k.pos(0)]);
+    // colliders with a type (class) in Tiled, see the collider registry in colliders.ts
+    const colliders: ColliderObject[] = [];
+
+    // items to collect, see the pickup registry in pickups.ts
+    const pickups: PickupPoint[] = [];
 
     // store locations of spawn points for both player and enemies
-    const spawnPoints: { [key: string]: { x: number; y: number; }[] } = {}; // e.g. key can be "player" / "flame" / "bird" / "guy" to find the spawn location of that unit
+    const spawnPoints: { [key: string]: SpawnPoint[] } = {}; // e.g. key can be "player" / "flame" / "bird" / "guy" to find the spawn location of that unit
 
     // take the mapdata object and iterate on its layers
     for (const layer of mapData.layers) {
 
+        // tile layers hold the visuals and are handled the same way regardless of their name
+        if (layer.type === "tilelayer") {
+            addTileLayer(k, map, layer, mapData);
+            continue;
+        }
+
         switch (layer.name) { // check what type of layer it is
 
             case "colliders":
                 // iterate collider objects and add them to the map
                 for (const collider of layer.objects) {
+                    // special colliders change during play, they are added at the start of every level attempt (colliders.ts)
+                    if (collider.type) {
+                        const path = collider.polyline ?? collider.polygon ?? [];
+                        colliders.push({
+                            type: collider.type,
+                            x: collider.x,
+                            y: collider.y,
+                            width: collider.width,
+                            height: collider.height,
+                            path,
+                            isClosedPath: Boolean(collider.polygon),
+                            properties: Object.fromEntries(
+                                (collider.properties ?? []).map((property) => [property.name, property.value])
+                            ),
+                        });
+                        continue;
+                    }
+
+                    // the exit and boss arenas are triggers the player can walk through, everything else is solid ground
+                    const isTrigger = collider.name === "exit" || collider.name === "arena";
                     map.add([
                         k.area({
                             // shape of the collider, fetches sizes from collider created with Tiled
                             shape: new k.Rect(k.vec2(0), collider.width, collider.height),
                             // filter which objects should have collisionIgnore enabled
-                            collisionIgnore: ["platform", "exit"],
+                            collisionIgnore: ["platform", "exit", "arena"],
                         }),
-                        // if the object is not the exit, set static property of body to true to make it not move on collision
-                        collider.name !== "exit" ? k.body({ isStatic: true }) : null,
+                        // if the object is not a trigger, set static property of body to true to make it not move on collision
+                        !isTrigger ? k.body({ isStatic: true }) : null,
                         // position of collider
                         k.pos(collider.x, collider.y),
-                        // if the object being added tot he map is NOT the exit, we can give it the platform tag
-                        collider.name !== "exit" ? "platform" : "exit"
+                        // triggers are tagged with their name, solid colliders get the platform tag
+                        isTrigger ? collider.name : "platform",
                     ]);
                 }
                 break;
 
             case "spawnpoints":
                 for (const spawnPoint of layer.objects) {
+                    // custom properties from Tiled, e.g. "speed" to override the default speed of an enemy
+                    const properties = Object.fromEntries(
+                        (spawnPoint.properties ?? []).map((property) => [property.name, property.value])
+                    );
                     // check if the KEY exists in the spawnpoints array already
                     if (spawnPoints[spawnPoint.name]) {
                         // add spawnpoint to array using the character's name and position for key-value
                         spawnPoints[spawnPoint.name].push({
+                            id: spawnPoint.id,
                             x: spawnPoint.x,
                             y: spawnPoint.y,
+                            properties,
                         });
                     } else { // if key did not exist, create new array and insert spawnpoint instead
-                        spawnPoints[spawnPoint.name] = [{ x: spawnPoint.x, y: spawnPoint.y }];
+                        spawnPoints[spawnPoint.name] = [{ id: spawnPoint.id, x: spawnPoint.x, y: spawnPoint.y, properties }];
+                    }
+                }
+                break;
+
+            case "pickups":
+                for (const pickup of layer.objects) {
+                    pickups.push({ id: pickup.id, type: pickup.name, x: pickup.x, y: pickup.y });
+                }
+                break;
+
+            case "camera":
+                for (const object of layer.objects) {
+                    const region = { x: object.x, y: object.y, width: object.width, height: object.height };
+                    const properties = Object.fromEntries(
+                        (object.properties ?? []).map((property) => [property.name, property.value])
+                    );
+                    switch (object.name) {
+                        case "bounds":
+                            camera.bounds = region;
+                            break;
+                        case "zone":
+                            camera.zones.push({
+                                ...region,
+                                zoom: typeof properties.zoom === "number" ? properties.zoom : null,
+                                lookAhead: typeof properties.lookAhead === "number" ? properties.lookAhead : null,
+                                lockX: properties.lockX === true,
+                                lockY: properties.lockY === true,
+                            });
+                            break;
+                        case "lock":
+                            camera.locks.push(region);
+                            break;
+                        case "killplane":
+                            // players touching a kill plane lose a life (see makePlayer())
+                            addKillPlane(k, map, region);
+                            hasKillPlane = true;
+                            break;
                     }
                 }
                 break;
@@ -60,6 +248,16 @@ export async function makeMap(k: KaboomCtx, name: string) {
                 break;
         }
     }
+
+    // falling out of the camera bounds is always deadly, even if the map has no kill planes of its own
+    if (!hasKillPlane) {
+        const { x, y, width, height } = camera.bounds;
+        addKillPlane(k, map, { x, y: y + height + tileSize, width, height: 10 * tileSize });
+    }
+
     // return completed map after processing all layers
-    return { map, spawnPoints };
-}
\ No newline at end of file
+    return { map, spawnPoints, camera, colliders, pickups };
+}
+
+// everything makeMap() builds from a Tiled map
+export type LevelMap = Awaited<ReturnType<typeof makeMap>>;
\ No newline at end of file